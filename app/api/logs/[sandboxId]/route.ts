@@ -0,0 +1,59 @@
+import { NextRequest } from 'next/server';
+import { assertSandboxOwner, SandboxAccessError } from '@/lib/sandbox/lifecycle';
+import { SandboxLogStream } from '@/lib/sandbox/logs';
+
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ sandboxId: string }> }
+) {
+    const { sandboxId } = await params;
+    console.log('📡 SSE log connection request for sandbox:', sandboxId);
+
+    // Logs can contain anything the app prints, so only the owning session may read them
+    try {
+        assertSandboxOwner(sandboxId, request.nextUrl.searchParams.get('sessionId') ?? '');
+    } catch (error) {
+        if (error instanceof SandboxAccessError) {
+            return new Response(error.message, { status: 403 });
+        }
+        throw error;
+    }
+
+    // Set up Server-Sent Events
+    const stream = new ReadableStream({
+        start(controller) {
+            const encoder = new TextEncoder();
+
+            // Send initial connection message
+            controller.enqueue(
+                encoder.encode(`data: ${JSON.stringify({ type: 'connected', sandboxId })}\n\n`)
+            );
+
+            // Subscribe to log output for this sandbox
+            // The subscription replays everything logged so far
+            const unsubscribe = SandboxLogStream.subscribe(sandboxId, (entry) => {
+                try {
+                    controller.enqueue(
+                        encoder.encode(`data: ${JSON.stringify({ type: 'log', data: entry })}\n\n`)
+                    );
+                } catch (error) {
+                    console.error('Error sending SSE log entry:', error);
+                }
+            });
+
+            // Clean up when the connection is closed
+            request.signal.addEventListener('abort', () => {
+                unsubscribe();
+                controller.close();
+            });
+        },
+    });
+
+    return new Response(stream, {
+        headers: {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache',
+            'Connection': 'keep-alive',
+        },
+    });
+}
@@ -0,0 +1,21 @@
+import { NextRequest } from 'next/server';
+import { readScreenshot } from '@/lib/screenshots';
+
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const { id } = await params;
+    const png = await readScreenshot(id);
+    if (!png) {
+        return new Response('Screenshot not found', { status: 404 });
+    }
+
+    return new Response(new Uint8Array(png), {
+        headers: {
+            'Content-Type': 'image/png',
+            // Screenshots never change once taken
+            'Cache-Control': 'public, max-age=31536000, immutable'
+        },
+    });
+}
@@ -6,6 +6,8 @@ import { ChatInterface } from '@/components/ui-builder/chat-interface';
 import { PreviewCard } from '@/components/ui-builder/preview-card';
 import { generateApp, GenerateAppResult } from '@/lib/actions/generate-app';
 import { generateSessionId } from '@/lib/progress-tracker';
+import { useSandboxKeepAlive } from '@/lib/hooks/use-sandbox-keep-alive';
+import { getSelectedTemplateId } from '@/lib/templates';
 
 // Extract the success type from the union
 type GenerationResult = Extract<GenerateAppResult, { buildOutput: string }> & { sandboxId?: string };
@@ -16,8 +18,15 @@ export default function ChatPage() {
     const [initialPrompt, setInitialPrompt] = useState<string>('');
     const [isGenerating, setIsGenerating] = useState(false);
     const [sessionId, setSessionId] = useState<string | null>(null);
+    // Edit instruction prepared outside the chat (e.g. from the preview console)
+    const [chatDraft, setChatDraft] = useState<string | null>(null);
+    // Screenshot of the first version, shown with the opening chat message
+    const [initialScreenshotUrl, setInitialScreenshotUrl] = useState<string | undefined>();
     const generationStartedRef = useRef(false);
 
+    // Keep the sandbox alive while this tab is open
+    useSandboxKeepAlive(result?.sandboxId, sessionId || undefined);
+
     useEffect(() => {
         // Get the prompt and check if we have an existing result
         const storedPrompt = sessionStorage.getItem('initialPrompt');
@@ -36,6 +45,7 @@ export default function ChatPage() {
             // If we have a stored result, use it
             const parsedResult = JSON.parse(storedResult);
             setResult(parsedResult);
+            setInitialScreenshotUrl(parsedResult.screenshot?.url);
             // IMPORTANT: Use sessionId from the result first, then fallback to stored
             const resultSessionId = parsedResult.sessionId || storedSessionId;
             console.log('💾 Using stored result with sessionId:', resultSessionId);
@@ -70,6 +80,7 @@ export default function ChatPage() {
                 useBuggyCode,
                 useFixer,
                 sessionId: progressSessionId,
+                templateId: getSelectedTemplateId(),
             });
 
             console.log('📦 Generation result received:', {
@@ -89,6 +100,7 @@ export default function ChatPage() {
             };
             sessionStorage.setItem('builderResult', JSON.stringify(resultWithSession));
             setResult(resultWithSession);
+            setInitialScreenshotUrl(generationResult.screenshot?.url);
 
             // CRITICAL: Make sure sessionId state matches the result
             console.log('🔄 Ensuring sessionId state matches result:', progressSessionId);
@@ -114,6 +126,12 @@ export default function ChatPage() {
         sessionStorage.setItem('builderResult', JSON.stringify(resultWithSession));
     };
 
+    // Files added to the project outside a generation, e.g. generated tests
+    const handleFilesChange = (files: GenerationResult['repairedFiles']) => {
+        if (!result) return;
+        handleUpdateResult({ ...result, repairedFiles: files });
+    };
+
     // Show loading spinner if we don't have prompt yet
     if (!initialPrompt) {
         return (
@@ -136,6 +154,9 @@ export default function ChatPage() {
                     onUpdateResult={handleUpdateResult}
                     sessionId={sessionId || undefined}
                     sandboxId={result?.sandboxId}
+                    initialScreenshotUrl={initialScreenshotUrl}
+                    draftMessage={chatDraft}
+                    onDraftConsumed={() => setChatDraft(null)}
                 />
             </div>
 
@@ -151,6 +172,9 @@ export default function ChatPage() {
                     onFixComplete={handleUpdateResult}
                     sessionId={sessionId || undefined}
                     sandboxId={result?.sandboxId}
+                    onSendToChat={setChatDraft}
+                    onFilesChange={handleFilesChange}
+                    visualDiff={result?.visualDiff}
                 />
             </div>
         </div>
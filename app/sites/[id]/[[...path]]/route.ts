@@ -0,0 +1,27 @@
+import { NextRequest } from 'next/server';
+import { readSiteFile } from '@/lib/sites';
+
+// Generated code runs in an opaque origin, so it can't reach the builder's API routes, server actions or cookies
+const SITE_CSP = 'sandbox allow-scripts allow-forms allow-modals allow-popups';
+
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string; path?: string[] }> }
+) {
+    const { id, path = [] } = await params;
+    const file = await readSiteFile(id, path);
+    if (!file) {
+        return new Response('Site not found', { status: 404 });
+    }
+
+    return new Response(new Uint8Array(file.data), {
+        headers: {
+            'Content-Type': file.contentType,
+            // Hashed assets never change, index.html points at the current ones
+            'Cache-Control': file.immutable ? 'public, max-age=31536000, immutable' : 'no-cache',
+            'Content-Security-Policy': SITE_CSP,
+            // Module scripts are fetched with CORS, and the sandboxed page's origin is "null"
+            'Access-Control-Allow-Origin': '*'
+        },
+    });
+}
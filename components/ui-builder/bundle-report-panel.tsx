@@ -0,0 +1,204 @@
+import { useEffect, useState } from 'react';
+import { AlertTriangle, ExternalLink, Loader2, Package } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { buildForProduction } from '@/lib/actions/production-build';
+import { getSelectedTemplateId } from '@/lib/templates';
+import { cn } from '@/lib/utils';
+
+interface BundleChunk {
+    file: string;
+    kind: 'js' | 'css' | 'html' | 'asset';
+    size: number;
+    gzipSize: number;
+}
+
+interface BundleReport {
+    success: boolean;
+    chunks: BundleChunk[];
+    totalSize: number;
+    totalGzipSize: number;
+    largestModules: Array<{ id: string; size: number }>;
+    errors: Array<{ message: string; file?: string; line?: number; column?: number }>;
+    durationMs: number;
+    builtAt: number;
+}
+
+interface PublishedSite {
+    id: string;
+    url: string;
+    sandboxId: string;
+    publishedAt: number;
+}
+
+// Same limit as Vite's chunkSizeWarningLimit (500 kB before compression)
+const LARGE_CHUNK_BYTES = 500 * 1024;
+
+function formatBytes(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} kB`;
+    return `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+}
+
+interface BundleReportPanelProps {
+    sandboxId?: string;
+    // Session that owns the sandbox
+    sessionId?: string;
+    disabled?: boolean;
+}
+
+export function BundleReportPanel({ sandboxId, sessionId, disabled = false }: BundleReportPanelProps) {
+    const [report, setReport] = useState<BundleReport | null>(null);
+    const [site, setSite] = useState<PublishedSite | null>(null);
+    const [isBuilding, setIsBuilding] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    // A report describes one sandbox's build
+    useEffect(() => {
+        setReport(null);
+        setSite(null);
+        setError(null);
+    }, [sandboxId]);
+
+    const handleBuild = async () => {
+        if (!sandboxId || !sessionId || isBuilding) return;
+
+        setIsBuilding(true);
+        setError(null);
+        try {
+            const result = await buildForProduction(sandboxId, sessionId, getSelectedTemplateId());
+            if ('error' in result) {
+                setError(result.message);
+            } else {
+                setReport(result.report);
+                // Keep the last published site if this build failed
+                if (result.site) setSite(result.site);
+            }
+        } catch (buildError) {
+            setError(buildError instanceof Error ? buildError.message : String(buildError));
+        } finally {
+            setIsBuilding(false);
+        }
+    };
+
+    const largeChunks = report?.chunks.filter(chunk => chunk.kind === 'js' && chunk.size > LARGE_CHUNK_BYTES) ?? [];
+    const largestModuleSize = report?.largestModules[0]?.size ?? 0;
+
+    return (
+        <div className="flex h-full flex-col rounded-md border bg-background">
+            <div className="flex flex-wrap items-center gap-2 border-b px-3 py-2 text-xs">
+                <Button size="sm" variant="outline" onClick={handleBuild} disabled={!sandboxId || !sessionId || disabled || isBuilding}>
+                    {isBuilding ? <Loader2 className="mr-1 h-3 w-3 animate-spin" /> : <Package className="mr-1 h-3 w-3" />}
+                    {isBuilding ? 'Building...' : 'Production build'}
+                </Button>
+
+                {site && (
+                    <Button size="sm" variant="ghost" asChild>
+                        <a href={site.url} target="_blank" rel="noopener noreferrer">
+                            <ExternalLink className="mr-1 h-3 w-3" />
+                            Open site
+                        </a>
+                    </Button>
+                )}
+
+                {report && (
+                    <div className="ml-auto flex items-center gap-2 text-muted-foreground">
+                        {report.success ? (
+                            <>
+                                {formatBytes(report.totalSize)} total, {formatBytes(report.totalGzipSize)} gzipped
+                                <Badge variant="secondary" className="h-4 px-1.5 text-[10px]">
+                                    {(report.durationMs / 1000).toFixed(1)}s
+                                </Badge>
+                            </>
+                        ) : (
+                            <span className="text-red-600 dark:text-red-400">Build failed</span>
+                        )}
+                    </div>
+                )}
+            </div>
+
+            {largeChunks.length > 0 && (
+                <div className="flex items-center gap-2 border-b bg-yellow-500/10 px-3 py-1.5 text-xs text-yellow-700 dark:text-yellow-400">
+                    <AlertTriangle className="h-3 w-3" />
+                    {largeChunks.length} chunk{largeChunks.length === 1 ? ' is' : 's are'} larger than {formatBytes(LARGE_CHUNK_BYTES)}. Check the largest modules for heavy dependencies.
+                </div>
+            )}
+
+            <ScrollArea className="flex-1 min-h-0">
+                <div className="space-y-4 p-3 text-xs">
+                    {error && (
+                        <p className="text-red-600 dark:text-red-400">{error}</p>
+                    )}
+
+                    {!report && !error && (
+                        <p className="text-muted-foreground">
+                            Run a production build to see the size of every output file and the modules that contribute the most.
+                        </p>
+                    )}
+
+                    {report && !report.success && report.errors.map((buildError, index) => (
+                        <pre key={index} className="whitespace-pre-wrap rounded border border-red-500/30 bg-red-500/5 p-2 font-mono text-red-700 dark:text-red-400">
+                            {buildError.file && `${buildError.file}${buildError.line ? `:${buildError.line}` : ''}\n`}
+                            {buildError.message}
+                        </pre>
+                    ))}
+
+                    {report?.success && (
+                        <>
+                            <div>
+                                <h4 className="mb-2 font-medium">Output files</h4>
+                                <table className="w-full">
+                                    <thead className="text-muted-foreground">
+                                        <tr>
+                                            <th className="py-1 text-left font-normal">File</th>
+                                            <th className="py-1 text-right font-normal">Size</th>
+                                            <th className="py-1 text-right font-normal">Gzip</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody className="font-mono">
+                                        {report.chunks.map(chunk => (
+                                            <tr
+                                                key={chunk.file}
+                                                className={cn(
+                                                    'border-t',
+                                                    chunk.kind === 'js' && chunk.size > LARGE_CHUNK_BYTES && 'text-yellow-700 dark:text-yellow-400'
+                                                )}
+                                            >
+                                                <td className="py-1 pr-2 break-all">{chunk.file}</td>
+                                                <td className="py-1 text-right whitespace-nowrap">{formatBytes(chunk.size)}</td>
+                                                <td className="py-1 text-right whitespace-nowrap">{formatBytes(chunk.gzipSize)}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+
+                            {report.largestModules.length > 0 && (
+                                <div>
+                                    <h4 className="mb-2 font-medium">Largest modules</h4>
+                                    <div className="space-y-1.5">
+                                        {report.largestModules.map(module => (
+                                            <div key={module.id}>
+                                                <div className="flex justify-between gap-2 font-mono">
+                                                    <span className="truncate" title={module.id}>{module.id}</span>
+                                                    <span className="shrink-0 text-muted-foreground">{formatBytes(module.size)}</span>
+                                                </div>
+                                                <div className="mt-0.5 h-1 rounded bg-muted">
+                                                    <div
+                                                        className="h-1 rounded bg-primary/60"
+                                                        style={{ width: `${(module.size / largestModuleSize) * 100}%` }}
+                                                    />
+                                                </div>
+                                            </div>
+                                        ))}
+                                    </div>
+                                </div>
+                            )}
+                        </>
+                    )}
+                </div>
+            </ScrollArea>
+        </div>
+    );
+}
@@ -1,6 +1,7 @@
 'use client';
 
 import { useState, useRef, useEffect } from 'react';
+import Image from 'next/image';
 import { Send, RotateCcw } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -9,12 +10,16 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { benchifyFileSchema } from '@/lib/schemas';
 import { z } from 'zod';
 import { generateApp } from '@/lib/actions/generate-app';
+import { releaseSandbox } from '@/lib/actions/sandbox-lifecycle';
+import { getSelectedTemplateId } from '@/lib/templates';
 
 interface Message {
     id: string;
     type: 'user' | 'assistant';
     content: string;
     timestamp: Date;
+    // Screenshot of the preview version this message produced
+    screenshotUrl?: string;
 }
 
 interface ChatInterfaceProps {
@@ -27,19 +32,30 @@ interface ChatInterfaceProps {
         previewUrl: string;
         sandboxId?: string;
         buildErrors?: Array<{
-            type: 'typescript' | 'build' | 'runtime';
+            type: 'typescript' | 'build' | 'runtime' | 'lint' | 'dependency' | 'accessibility';
             message: string;
             file?: string;
             line?: number;
             column?: number;
+            code?: string;
+            severity?: 'error' | 'warning';
         }>;
         hasErrors?: boolean;
+        screenshot?: {
+            id: string;
+            url: string;
+            capturedAt: number;
+        };
+        sandboxRestored?: boolean;
     }) => void;
     sessionId?: string;
     sandboxId?: string; // Add sandbox ID for reusing existing sandbox
+    initialScreenshotUrl?: string;
+    draftMessage?: string | null; // Prefills the input so the user can review it before sending
+    onDraftConsumed?: () => void;
 }
 
-export function ChatInterface({ initialPrompt, currentFiles, onUpdateResult, sessionId, sandboxId }: ChatInterfaceProps) {
+export function ChatInterface({ initialPrompt, currentFiles, onUpdateResult, sessionId, sandboxId, initialScreenshotUrl, draftMessage, onDraftConsumed }: ChatInterfaceProps) {
     const [messages, setMessages] = useState<Message[]>([
         {
             id: '1',
@@ -66,6 +82,22 @@ export function ChatInterface({ initialPrompt, currentFiles, onUpdateResult, ses
         scrollToBottom();
     }, [messages]);
 
+    // The first version finishes building after the chat is shown
+    useEffect(() => {
+        if (initialScreenshotUrl) {
+            setMessages(prev => prev.map(msg =>
+                msg.id === '2' ? { ...msg, screenshotUrl: initialScreenshotUrl } : msg
+            ));
+        }
+    }, [initialScreenshotUrl]);
+
+    useEffect(() => {
+        if (draftMessage) {
+            setNewMessage(draftMessage);
+            onDraftConsumed?.();
+        }
+    }, [draftMessage, onDraftConsumed]);
+
     const handleSendMessage = async () => {
         if (!newMessage.trim() || isLoading) return;
 
@@ -107,6 +139,7 @@ export function ChatInterface({ initialPrompt, currentFiles, onUpdateResult, ses
                 useFixer,
                 sessionId: sessionId,
                 existingSandboxId: sandboxId, // Reuse existing sandbox if available
+                templateId: getSelectedTemplateId(),
             });
 
             console.log('Edit request:', {
@@ -126,7 +159,12 @@ export function ChatInterface({ initialPrompt, currentFiles, onUpdateResult, ses
             // Update the thinking message to success
             setMessages(prev => prev.map(msg =>
                 msg.id === thinkingMessage.id
-                    ? { ...msg, content: `Great! I've updated the component according to your request: "${editInstruction}"` }
+                    ? {
+                        ...msg,
+                        content: `Great! I've updated the component according to your request: "${editInstruction}"` +
+                            (editResult.sandboxRestored ? '\n\nYour previous sandbox had expired, so I restored your project in a new one.' : ''),
+                        screenshotUrl: editResult.screenshot?.url
+                    }
                     : msg
             ));
 
@@ -151,10 +189,20 @@ export function ChatInterface({ initialPrompt, currentFiles, onUpdateResult, ses
         }
     };
 
-    const handleStartOver = () => {
+    const handleStartOver = async () => {
+        // Kill the current sandbox instead of waiting for it to be reaped
+        if (sandboxId && sessionId) {
+            try {
+                await releaseSandbox(sandboxId, sessionId);
+            } catch (error) {
+                console.error('Error releasing sandbox:', error);
+            }
+        }
+
         // Clear session storage and redirect to home
         sessionStorage.removeItem('builderResult');
         sessionStorage.removeItem('initialPrompt');
+        sessionStorage.removeItem('templateId');
         window.location.href = '/';
     };
 
@@ -190,6 +238,25 @@ export function ChatInterface({ initialPrompt, currentFiles, onUpdateResult, ses
                                         }`}
                                 >
                                     <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+                                    {message.screenshotUrl && (
+                                        <a
+                                            href={message.screenshotUrl}
+                                            target="_blank"
+                                            rel="noopener noreferrer"
+                                            className="block mt-2"
+                                            title="Open full-size screenshot"
+                                        >
+                                            {/* Sized like the screenshot viewport, the image scales to the message width */}
+                                            <Image
+                                                src={message.screenshotUrl}
+                                                alt="Preview screenshot"
+                                                width={1280}
+                                                height={800}
+                                                unoptimized
+                                                className="h-auto w-full rounded border border-border bg-background"
+                                            />
+                                        </a>
+                                    )}
                                     <p className="text-xs opacity-70 mt-1">
                                         {message.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
                                     </p>
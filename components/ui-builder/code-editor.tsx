@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback, useMemo } from "react";
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import { benchifyFileSchema } from "@/lib/schemas";
 import { z } from "zod";
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
@@ -20,6 +20,10 @@ import {
 
 interface CodeEditorProps {
     files: z.infer<typeof benchifyFileSchema>;
+    // Opens this file, e.g. when a console stack frame is clicked
+    selectedPath?: string;
+    // 1-based line to highlight and scroll to in the selected file
+    highlightLine?: number;
 }
 
 interface FileNode {
@@ -30,9 +34,10 @@ interface FileNode {
     contents?: string;
 }
 
-export function CodeEditor({ files = [] }: CodeEditorProps) {
+export function CodeEditor({ files = [], selectedPath, highlightLine }: CodeEditorProps) {
     const [selectedFilePath, setSelectedFilePath] = useState<string>('');
     const [openFolders, setOpenFolders] = useState<Set<string>>(new Set());
+    const codeContainerRef = useRef<HTMLDivElement>(null);
 
     // Build file tree structure (pure function, no side effects)
     const buildFileTree = useCallback((files: Array<{ path: string; contents: string }>): { tree: FileNode[], allFolders: string[] } => {
@@ -101,6 +106,24 @@ export function CodeEditor({ files = [] }: CodeEditorProps) {
         }
     }, [files, selectedFilePath]); // Include files since we access files[0]
 
+    // Follow external navigation (e.g. from the console)
+    useEffect(() => {
+        if (selectedPath) {
+            setSelectedFilePath(selectedPath);
+        }
+    }, [selectedPath]);
+
+    const activeHighlightLine = selectedFile && selectedFile.path === selectedPath ? highlightLine : undefined;
+
+    // Bring the highlighted line into view
+    useEffect(() => {
+        if (activeHighlightLine) {
+            codeContainerRef.current
+                ?.querySelector('[data-highlighted-line="true"]')
+                ?.scrollIntoView({ block: 'center' });
+        }
+    }, [activeHighlightLine, selectedFile]);
+
     // Get file icon based on extension
     const getFileIcon = (path: string) => {
         if (path.endsWith('.tsx') || path.endsWith('.jsx')) return <FileCode className="h-4 w-4 text-blue-500" />;
@@ -199,7 +222,7 @@ export function CodeEditor({ files = [] }: CodeEditorProps) {
             </div>
 
             {/* Code content */}
-            <div className="border rounded-md overflow-hidden h-full min-w-0 flex-1">
+            <div ref={codeContainerRef} className="border rounded-md overflow-hidden h-full min-w-0 flex-1">
                 {selectedFile ? (
                     <div className="flex flex-col h-full">
                         <div className="p-3 border-b bg-muted/50 font-medium flex items-center gap-2">
@@ -221,7 +244,10 @@ export function CodeEditor({ files = [] }: CodeEditorProps) {
                                 borderRadius: '0.375rem',
                             }}
                             wrapLongLines={false}
-                            wrapLines={false}
+                            wrapLines={activeHighlightLine !== undefined}
+                            lineProps={(lineNumber: number) => lineNumber === activeHighlightLine
+                                ? { 'data-highlighted-line': 'true', style: { display: 'block', backgroundColor: 'rgba(239, 68, 68, 0.2)' } }
+                                : {}}
                             codeTagProps={{
                                 style: {
                                     fontFamily: 'var(--font-mono)',
@@ -0,0 +1,296 @@
+import { useMemo, useState } from 'react';
+import { AlertCircle, AlertTriangle, Info, MessageSquare, RotateCw, Trash2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Switch } from '@/components/ui/switch';
+import { cn } from '@/lib/utils';
+import { usePreviewEvents } from '@/lib/hooks/use-preview-events';
+import { formatPreviewErrors, getSourceLocations, SourceLocation, StoredPreviewEvent } from '@/lib/preview-events';
+
+type ConsoleLevel = 'error' | 'warn' | 'info' | 'log';
+
+interface ConsoleEntry {
+    kind: 'entry';
+    id: number;
+    level: ConsoleLevel;
+    timestamp: number;
+    message: string;
+    stack?: string;
+    locations: SourceLocation[];
+    event: StoredPreviewEvent;
+}
+
+// Shown between entries from different page loads when the log is preserved
+interface ReloadMarker {
+    kind: 'reload';
+    id: number;
+    timestamp: number;
+}
+
+interface ConsolePanelProps {
+    sessionId?: string;
+    // Paths of the project files, used to only link stack frames that exist in the code view
+    filePaths: string[];
+    onOpenSource?: (location: SourceLocation) => void;
+    onSendToChat?: (instruction: string) => void;
+}
+
+const LEVELS: ConsoleLevel[] = ['error', 'warn', 'info', 'log'];
+
+function toRow(event: StoredPreviewEvent): ConsoleEntry | ReloadMarker | null {
+    switch (event.kind) {
+        case 'load':
+            return { kind: 'reload', id: event.id, timestamp: event.timestamp };
+        case 'console':
+            return {
+                kind: 'entry',
+                id: event.id,
+                level: event.level === 'debug' ? 'log' : event.level,
+                timestamp: event.timestamp,
+                message: event.message,
+                stack: event.stack,
+                locations: getSourceLocations(event.stack),
+                event
+            };
+        case 'error':
+            return {
+                kind: 'entry',
+                id: event.id,
+                level: 'error',
+                timestamp: event.timestamp,
+                message: `Uncaught ${event.message}`,
+                stack: event.stack,
+                locations: getSourceLocations(event.stack || `${event.file}:${event.line}:${event.column}`),
+                event
+            };
+        case 'unhandledrejection':
+            return {
+                kind: 'entry',
+                id: event.id,
+                level: 'error',
+                timestamp: event.timestamp,
+                message: `Unhandled promise rejection: ${event.message}`,
+                stack: event.stack,
+                locations: getSourceLocations(event.stack),
+                event
+            };
+        case 'network':
+            return {
+                kind: 'entry',
+                id: event.id,
+                level: event.status && event.status < 500 ? 'warn' : 'error',
+                timestamp: event.timestamp,
+                message: `${event.method} ${event.url} ${event.message}`,
+                locations: [],
+                event
+            };
+        default:
+            return null;
+    }
+}
+
+function LevelIcon({ level }: { level: ConsoleLevel }) {
+    switch (level) {
+        case 'error':
+            return <AlertCircle className="h-3 w-3 text-red-500" />;
+        case 'warn':
+            return <AlertTriangle className="h-3 w-3 text-yellow-500" />;
+        case 'info':
+            return <Info className="h-3 w-3 text-blue-500" />;
+        default:
+            return <span className="h-3 w-3" />;
+    }
+}
+
+export function ConsolePanel({ sessionId, filePaths, onOpenSource, onSendToChat }: ConsolePanelProps) {
+    const { events, clear } = usePreviewEvents(sessionId);
+    const [enabledLevels, setEnabledLevels] = useState<Set<ConsoleLevel>>(new Set(LEVELS));
+    const [preserveLog, setPreserveLog] = useState(false);
+    const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
+
+    // Like browser devtools, only show what happened since the last reload unless asked to keep it
+    const visibleEvents = useMemo(() => {
+        if (preserveLog) return events;
+        const lastLoad = events.map(event => event.kind).lastIndexOf('load');
+        return events.slice(lastLoad + 1);
+    }, [events, preserveLog]);
+
+    const rows = useMemo(
+        () => visibleEvents
+            .map(toRow)
+            .filter((row): row is ConsoleEntry | ReloadMarker => row !== null),
+        [visibleEvents]
+    );
+    const entries = useMemo(() => rows.filter((row): row is ConsoleEntry => row.kind === 'entry'), [rows]);
+
+    const counts = useMemo(() => {
+        const result: Record<ConsoleLevel, number> = { error: 0, warn: 0, info: 0, log: 0 };
+        entries.forEach(entry => result[entry.level]++);
+        return result;
+    }, [entries]);
+
+    const selectedErrors = entries.filter(entry => selectedIds.has(entry.id));
+
+    const toggleLevel = (level: ConsoleLevel) => {
+        setEnabledLevels(prev => {
+            const next = new Set(prev);
+            if (next.has(level)) {
+                next.delete(level);
+            } else {
+                next.add(level);
+            }
+            return next;
+        });
+    };
+
+    const toggleSelected = (id: number) => {
+        setSelectedIds(prev => {
+            const next = new Set(prev);
+            if (next.has(id)) {
+                next.delete(id);
+            } else {
+                next.add(id);
+            }
+            return next;
+        });
+    };
+
+    const handleClear = () => {
+        clear();
+        setSelectedIds(new Set());
+    };
+
+    const handleSendToChat = () => {
+        if (!onSendToChat || selectedErrors.length === 0) return;
+
+        const details = formatPreviewErrors(selectedErrors.map(entry => entry.event));
+        const locations = selectedErrors
+            .flatMap(entry => entry.locations.slice(0, 1))
+            .map(location => `${location.file}:${location.line}`);
+        onSendToChat(`Fix these errors from the preview console:\n\n${details}` +
+            (locations.length > 0 ? `\n\nThey were raised in ${Array.from(new Set(locations)).join(', ')}.` : ''));
+        setSelectedIds(new Set());
+    };
+
+    return (
+        <div className="flex h-full flex-col rounded-md border bg-background">
+            <div className="flex flex-wrap items-center gap-2 border-b px-3 py-2">
+                {LEVELS.map(level => (
+                    <button
+                        key={level}
+                        onClick={() => toggleLevel(level)}
+                        className={cn(
+                            'flex items-center gap-1 rounded px-2 py-0.5 text-xs capitalize transition-colors',
+                            enabledLevels.has(level) ? 'bg-muted text-foreground' : 'text-muted-foreground/60 hover:text-muted-foreground'
+                        )}
+                    >
+                        {level === 'warn' ? 'warnings' : level === 'error' ? 'errors' : level}
+                        {counts[level] > 0 && (
+                            <Badge variant={level === 'error' ? 'destructive' : 'secondary'} className="h-4 px-1 text-[10px]">
+                                {counts[level]}
+                            </Badge>
+                        )}
+                    </button>
+                ))}
+
+                <div className="ml-auto flex items-center gap-3">
+                    <div className="flex items-center gap-1.5">
+                        <Switch id="preserve-log" checked={preserveLog} onCheckedChange={setPreserveLog} />
+                        <Label htmlFor="preserve-log" className="text-xs">Preserve log</Label>
+                    </div>
+                    {onSendToChat && (
+                        <Button
+                            variant="outline"
+                            size="sm"
+                            className="h-7 text-xs"
+                            disabled={selectedErrors.length === 0}
+                            onClick={handleSendToChat}
+                        >
+                            <MessageSquare className="h-3 w-3 mr-1" />
+                            Send to chat{selectedErrors.length > 0 ? ` (${selectedErrors.length})` : ''}
+                        </Button>
+                    )}
+                    <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={handleClear}>
+                        <Trash2 className="h-3 w-3 mr-1" />
+                        Clear
+                    </Button>
+                </div>
+            </div>
+
+            <ScrollArea className="flex-1 min-h-0">
+                <div className="font-mono text-xs">
+                    {rows.length === 0 ? (
+                        <p className="p-3 text-muted-foreground">
+                            Console output from the preview will appear here.
+                        </p>
+                    ) : (
+                        rows.map(entry => {
+                            if (entry.kind === 'reload') {
+                                return (
+                                    <div key={entry.id} className="flex items-center gap-2 border-b bg-muted/30 px-3 py-1 text-muted-foreground">
+                                        <RotateCw className="h-3 w-3" />
+                                        Page reloaded at {new Date(entry.timestamp).toLocaleTimeString()}
+                                    </div>
+                                );
+                            }
+                            if (!enabledLevels.has(entry.level)) return null;
+
+                            const isError = entry.level === 'error';
+                            const linkedLocations = entry.locations.filter(location => filePaths.includes(location.file));
+
+                            return (
+                                <div
+                                    key={entry.id}
+                                    className={cn(
+                                        'flex gap-2 border-b px-3 py-1.5',
+                                        isError && 'bg-red-500/5 text-red-700 dark:text-red-400',
+                                        entry.level === 'warn' && 'bg-yellow-500/5 text-yellow-800 dark:text-yellow-300'
+                                    )}
+                                >
+                                    {isError && onSendToChat ? (
+                                        <input
+                                            type="checkbox"
+                                            aria-label="Select error"
+                                            className="mt-0.5"
+                                            checked={selectedIds.has(entry.id)}
+                                            onChange={() => toggleSelected(entry.id)}
+                                        />
+                                    ) : (
+                                        <span className="mt-0.5"><LevelIcon level={entry.level} /></span>
+                                    )}
+                                    <span className="shrink-0 text-muted-foreground/70">
+                                        {new Date(entry.timestamp).toLocaleTimeString()}
+                                    </span>
+                                    <div className="min-w-0 flex-1">
+                                        <p className="whitespace-pre-wrap break-words">{entry.message}</p>
+                                        {entry.stack && isError && (
+                                            <details className="mt-1 text-muted-foreground">
+                                                <summary className="cursor-pointer">Stack trace</summary>
+                                                <pre className="whitespace-pre-wrap break-words">{entry.stack}</pre>
+                                            </details>
+                                        )}
+                                        {linkedLocations.length > 0 && onOpenSource && (
+                                            <div className="mt-1 flex flex-wrap gap-2">
+                                                {linkedLocations.slice(0, 3).map((location, index) => (
+                                                    <button
+                                                        key={index}
+                                                        onClick={() => onOpenSource(location)}
+                                                        className="text-primary underline-offset-2 hover:underline"
+                                                    >
+                                                        {location.file}:{location.line}
+                                                    </button>
+                                                ))}
+                                            </div>
+                                        )}
+                                    </div>
+                                </div>
+                            );
+                        })
+                    )}
+                </div>
+            </ScrollArea>
+        </div>
+    );
+}
@@ -1,7 +1,7 @@
 'use client';
 
 import { useState } from 'react';
-import { AlertCircle, Code, FileX, Terminal, Wand2, Wrench, CheckCircle, Circle, Loader2 } from 'lucide-react';
+import { Accessibility, AlertCircle, AlertTriangle, ArrowLeft, Code, FileX, Package, Terminal, Wand2, Wrench, CheckCircle, Circle, Loader2 } from 'lucide-react';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
@@ -13,14 +13,20 @@ import { generateApp } from '@/lib/actions/generate-app';
 import { runBenchifyFixer } from '@/lib/actions/benchify-fixer';
 import { generateSessionId, ProgressStep } from '@/lib/progress-tracker';
 import { useProgress } from '@/lib/hooks/use-progress';
+import { formatPreviewErrors, getPreviewErrors } from '@/lib/preview-events';
+import { getSelectedTemplateId } from '@/lib/templates';
 import { StepTimer } from './step-timer';
 
 interface BuildError {
-    type: 'typescript' | 'build' | 'runtime';
+    type: 'typescript' | 'build' | 'runtime' | 'lint' | 'dependency' | 'accessibility';
     message: string;
     file?: string;
     line?: number;
     column?: number;
+    code?: string;
+    severity?: 'error' | 'warning';
+    impact?: 'minor' | 'moderate' | 'serious' | 'critical';
+    selector?: string;
 }
 
 interface FixResult {
@@ -39,9 +45,10 @@ interface ErrorDisplayProps {
     onFixComplete?: (result: FixResult) => void;
     sessionId?: string;
     sandboxId?: string; // Add sandbox ID to reuse existing sandbox
+    onDismiss?: () => void; // Shown as "Back to Preview" when the preview can still run
 }
 
-export function ErrorDisplay({ errors, currentFiles, onFixComplete, sessionId, sandboxId }: ErrorDisplayProps) {
+export function ErrorDisplay({ errors, currentFiles, onFixComplete, sessionId, sandboxId, onDismiss }: ErrorDisplayProps) {
     const [isFixing, setIsFixing] = useState(false);
     const [isBenchifyFixing, setIsBenchifyFixing] = useState(false);
     const [fixSessionId, setFixSessionId] = useState<string | null>(null);
@@ -61,6 +68,12 @@ export function ErrorDisplay({ errors, currentFiles, onFixComplete, sessionId, s
                 return <Terminal className="h-4 w-4" />;
             case 'runtime':
                 return <AlertCircle className="h-4 w-4" />;
+            case 'lint':
+                return <AlertTriangle className="h-4 w-4" />;
+            case 'dependency':
+                return <Package className="h-4 w-4" />;
+            case 'accessibility':
+                return <Accessibility className="h-4 w-4" />;
             default:
                 return <FileX className="h-4 w-4" />;
         }
@@ -74,11 +87,20 @@ export function ErrorDisplay({ errors, currentFiles, onFixComplete, sessionId, s
                 return 'bg-orange-500/10 text-orange-700 dark:text-orange-400';
             case 'runtime':
                 return 'bg-red-500/10 text-red-700 dark:text-red-400';
+            case 'lint':
+                return 'bg-yellow-500/10 text-yellow-700 dark:text-yellow-400';
+            case 'dependency':
+                return 'bg-purple-500/10 text-purple-700 dark:text-purple-400';
+            case 'accessibility':
+                return 'bg-teal-500/10 text-teal-700 dark:text-teal-400';
             default:
                 return 'bg-gray-500/10 text-gray-700 dark:text-gray-400';
         }
     };
 
+    const isWarningsOnly = errors.every(error => error.severity === 'warning');
+    const accessibilityErrors = errors.filter(error => error.type === 'accessibility');
+
     const groupedErrors = errors.reduce((acc, error) => {
         if (!acc[error.type]) {
             acc[error.type] = [];
@@ -87,6 +109,15 @@ export function ErrorDisplay({ errors, currentFiles, onFixComplete, sessionId, s
         return acc;
     }, {} as Record<string, BuildError[]>);
 
+    // Accessibility is its own diagnostics group, listed after the code problems
+    const groupEntries = Object.entries(groupedErrors).sort(([a], [b]) =>
+        Number(a === 'accessibility') - Number(b === 'accessibility'));
+
+    const getGroupTitle = (type: string, typeErrors: BuildError[]) => {
+        if (type === 'accessibility') return 'Accessibility';
+        return `${type} ${typeErrors.every(error => error.severity === 'warning') ? 'Warnings' : 'Errors'}`;
+    };
+
     // Helper function to render progress steps
     const renderProgressSteps = (steps: ProgressStep[], title: string) => (
         <Card className="w-full max-w-md mx-auto">
@@ -137,32 +168,15 @@ export function ErrorDisplay({ errors, currentFiles, onFixComplete, sessionId, s
         </Card>
     );
 
-    const handleFixWithAI = async () => {
-        if (!currentFiles || errors.length === 0 || isFixing) return;
+    // Runs an edit with the given fix instruction on the current files and sandbox
+    const runAIFix = async (fixInstruction: string) => {
+        if (!currentFiles || isFixing) return;
 
         setIsFixing(true);
         const newSessionId = generateSessionId();
         setFixSessionId(newSessionId);
 
         try {
-            // Format errors into an edit instruction
-            const errorDetails = errors.map(error => {
-                let errorInfo = `${error.type.toUpperCase()} ERROR: ${error.message}`;
-                if (error.file) {
-                    errorInfo += ` (in ${error.file}`;
-                    if (error.line) errorInfo += ` at line ${error.line}`;
-                    if (error.column) errorInfo += `, column ${error.column}`;
-                    errorInfo += ')';
-                }
-                return errorInfo;
-            }).join('\n\n');
-
-            const fixInstruction = `Fix the following build errors:
-
-${errorDetails}
-
-Please make the minimal changes necessary to resolve these errors while maintaining existing functionality.`;
-
             console.log('🔧 AI Fix - Debug Info:', {
                 errorsCount: errors.length,
                 currentFilesCount: currentFiles?.length || 0,
@@ -186,7 +200,9 @@ Please make the minimal changes necessary to resolve these errors while maintain
                 useBuggyCode,
                 useFixer,
                 sessionId: newSessionId,
+                ownerSessionId: sessionId,
                 existingSandboxId: sandboxId, // Reuse existing sandbox if available
+                templateId: getSelectedTemplateId(),
             });
 
             if ('error' in fixResult) {
@@ -207,6 +223,49 @@ Please make the minimal changes necessary to resolve these errors while maintain
         }
     };
 
+    const handleFixWithAI = async () => {
+        if (errors.length === 0) return;
+
+        // Format errors into an edit instruction
+        const errorDetails = errors.map(error => {
+            const level = error.severity === 'warning' ? 'WARNING' : 'ERROR';
+            let errorInfo = `${error.type.toUpperCase()} ${level}: ${error.code ? `${error.code}: ` : ''}${error.message}`;
+            if (error.file) {
+                errorInfo += ` (in ${error.file}`;
+                if (error.line) errorInfo += ` at line ${error.line}`;
+                if (error.column) errorInfo += `, column ${error.column}`;
+                errorInfo += ')';
+            }
+            return errorInfo;
+        }).join('\n\n');
+
+        // Include what the running preview itself reported, if anything
+        const previewErrors = sessionId ? formatPreviewErrors(getPreviewErrors(sessionId)) : '';
+
+        await runAIFix(`Fix the following ${isWarningsOnly ? 'warnings' : 'build errors'}:
+
+${errorDetails}
+${previewErrors ? `\nThe preview also reported:\n${previewErrors}\n` : ''}
+Please make the minimal changes necessary to resolve these ${isWarningsOnly ? 'warnings' : 'errors'} while maintaining existing functionality.`);
+    };
+
+    const handleFixAccessibility = async () => {
+        if (accessibilityErrors.length === 0) return;
+
+        const issueDetails = accessibilityErrors.map(error => {
+            let issueInfo = `${error.impact ? `${error.impact.toUpperCase()} ` : ''}${error.code}: ${error.message}`;
+            if (error.selector) issueInfo += `\nElement: ${error.selector}`;
+            if (error.file) issueInfo += `\nRendered by ${error.file}${error.line ? ` at line ${error.line}` : ''}`;
+            return issueInfo;
+        }).join('\n\n');
+
+        await runAIFix(`Fix the following accessibility issues found by axe-core:
+
+${issueDetails}
+
+Use semantic elements, labels, alt text and ARIA attributes where they are missing, and adjust colors only as much as needed for sufficient contrast. Keep the layout and functionality the same.`);
+    };
+
     const handleFixWithBenchify = async () => {
         if (!currentFiles || errors.length === 0 || isBenchifyFixing) return;
 
@@ -220,7 +279,9 @@ Please make the minimal changes necessary to resolve these errors while maintain
             const fixResult = await runBenchifyFixer({
                 files: currentFiles,
                 sessionId: newSessionId,
+                ownerSessionId: sessionId,
                 existingSandboxId: sandboxId, // Reuse existing sandbox if available
+                templateId: getSelectedTemplateId(),
             });
 
             if ('error' in fixResult) {
@@ -262,34 +323,53 @@ Please make the minimal changes necessary to resolve these errors while maintain
         <div className="w-full h-full flex items-center justify-center rounded-md border bg-background p-6">
             <div className="w-full max-w-2xl">
                 <div className="text-center mb-6">
-                    <AlertCircle className="h-12 w-12 text-destructive mx-auto mb-4" />
-                    <h3 className="text-lg font-semibold mb-2">Build Errors Detected</h3>
-                    <p className="text-muted-foreground text-sm">
-                        Your project has some issues that need to be fixed before it can run properly.
-                    </p>
+                    {isWarningsOnly ? (
+                        <>
+                            <AlertTriangle className="h-12 w-12 text-yellow-500 mx-auto mb-4" />
+                            <h3 className="text-lg font-semibold mb-2">Warnings Detected</h3>
+                            <p className="text-muted-foreground text-sm">
+                                Your project runs, but these issues are worth fixing.
+                            </p>
+                        </>
+                    ) : (
+                        <>
+                            <AlertCircle className="h-12 w-12 text-destructive mx-auto mb-4" />
+                            <h3 className="text-lg font-semibold mb-2">Build Errors Detected</h3>
+                            <p className="text-muted-foreground text-sm">
+                                Your project has some issues that need to be fixed before it can run properly.
+                            </p>
+                        </>
+                    )}
                 </div>
 
                 <ScrollArea className="max-h-96 mb-6">
                     <div className="space-y-4">
-                        {Object.entries(groupedErrors).map(([type, typeErrors]) => (
+                        {groupEntries.map(([type, typeErrors]) => (
                             <div key={type} className="space-y-2">
                                 <div className="flex items-center gap-2 mb-3">
                                     {getErrorIcon(type as BuildError['type'])}
-                                    <h4 className="font-medium capitalize">{type} Errors</h4>
+                                    <h4 className="font-medium capitalize">
+                                        {getGroupTitle(type, typeErrors)}
+                                    </h4>
                                     <Badge variant="secondary" className="text-xs">
                                         {typeErrors.length}
                                     </Badge>
                                 </div>
 
                                 {typeErrors.map((error, index) => (
-                                    <Alert key={index} className="border-l-4 border-destructive">
+                                    <Alert key={index} className={`border-l-4 ${error.severity === 'warning' ? 'border-yellow-500' : 'border-destructive'}`}>
                                         <AlertTitle className="flex items-center gap-2 text-sm">
                                             <Badge
                                                 variant="outline"
                                                 className={`text-xs ${getErrorColor(error.type)}`}
                                             >
-                                                {error.type}
+                                                {error.code ?? error.type}
                                             </Badge>
+                                            {error.impact && (
+                                                <Badge variant="secondary" className="text-xs capitalize">
+                                                    {error.impact}
+                                                </Badge>
+                                            )}
                                             {error.file && (
                                                 <span className="text-muted-foreground">
                                                     {error.file}
@@ -300,6 +380,9 @@ Please make the minimal changes necessary to resolve these errors while maintain
                                         </AlertTitle>
                                         <AlertDescription className="mt-2 text-sm font-mono bg-muted/50 p-2 rounded text-wrap break-words">
                                             {error.message}
+                                            {error.selector && (
+                                                <span className="block mt-1 text-xs text-muted-foreground">{error.selector}</span>
+                                            )}
                                         </AlertDescription>
                                     </Alert>
                                 ))}
@@ -330,6 +413,18 @@ Please make the minimal changes necessary to resolve these errors while maintain
                                 )}
                             </Button>
 
+                            {accessibilityErrors.length > 0 && (
+                                <Button
+                                    onClick={handleFixAccessibility}
+                                    disabled={isFixing || isBenchifyFixing}
+                                    variant="outline"
+                                    className="flex-1 sm:flex-none"
+                                >
+                                    <Accessibility className="h-4 w-4 mr-2" />
+                                    Fix accessibility issues
+                                </Button>
+                            )}
+
                             <Button
                                 onClick={handleFixWithBenchify}
                                 disabled={isFixing || isBenchifyFixing}
@@ -348,6 +443,18 @@ Please make the minimal changes necessary to resolve these errors while maintain
                                     </>
                                 )}
                             </Button>
+
+                            {onDismiss && (
+                                <Button
+                                    onClick={onDismiss}
+                                    disabled={isFixing || isBenchifyFixing}
+                                    variant="ghost"
+                                    className="flex-1 sm:flex-none"
+                                >
+                                    <ArrowLeft className="h-4 w-4 mr-2" />
+                                    Back to Preview
+                                </Button>
+                            )}
                         </div>
                     </div>
                 )}
@@ -0,0 +1,79 @@
+import { useEffect, useRef, useState } from 'react';
+import { ChevronDown, ChevronRight, Terminal, Trash2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { useSandboxLogs } from '@/lib/hooks/use-sandbox-logs';
+
+interface LogPanelProps {
+    sandboxId?: string;
+    // Session that owns the sandbox
+    sessionId?: string;
+}
+
+export function LogPanel({ sandboxId, sessionId }: LogPanelProps) {
+    const [isOpen, setIsOpen] = useState(false);
+    const { logs, isConnected, clear } = useSandboxLogs(sandboxId, sessionId);
+    const bottomRef = useRef<HTMLDivElement>(null);
+
+    const errorCount = logs.filter(entry => entry.stream === 'stderr').length;
+
+    // Keep the latest output in view while the panel is open
+    useEffect(() => {
+        if (isOpen) {
+            bottomRef.current?.scrollIntoView({ block: 'end' });
+        }
+    }, [logs, isOpen]);
+
+    if (!sandboxId) {
+        return null;
+    }
+
+    return (
+        <Collapsible open={isOpen} onOpenChange={setIsOpen} className="border-t bg-background">
+            <div className="flex items-center justify-between px-3 py-1.5">
+                <CollapsibleTrigger asChild>
+                    <button className="flex items-center gap-2 text-xs font-medium text-muted-foreground hover:text-foreground">
+                        {isOpen ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+                        <Terminal className="h-3 w-3" />
+                        Dev Server Logs
+                        <span className={`h-1.5 w-1.5 rounded-full ${isConnected ? 'bg-green-500' : 'bg-muted-foreground/40'}`} />
+                        {errorCount > 0 && (
+                            <Badge variant="destructive" className="h-4 px-1.5 text-[10px]">
+                                {errorCount}
+                            </Badge>
+                        )}
+                    </button>
+                </CollapsibleTrigger>
+                {isOpen && logs.length > 0 && (
+                    <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={clear}>
+                        <Trash2 className="h-3 w-3 mr-1" />
+                        Clear
+                    </Button>
+                )}
+            </div>
+            <CollapsibleContent>
+                <div className="h-48 overflow-y-auto border-t bg-muted/30 px-3 py-2 font-mono text-xs">
+                    {logs.length === 0 ? (
+                        <p className="text-muted-foreground">No output yet.</p>
+                    ) : (
+                        logs.map(entry => (
+                            <div key={entry.id} className="flex gap-2 whitespace-pre-wrap break-all">
+                                <span className="shrink-0 text-muted-foreground/60">
+                                    {new Date(entry.timestamp).toLocaleTimeString()}
+                                </span>
+                                <span className="shrink-0 text-muted-foreground">
+                                    [{entry.source === 'install' ? 'npm' : entry.source === 'test' ? 'vitest' : 'vite'}]
+                                </span>
+                                <span className={entry.stream === 'stderr' ? 'text-red-600 dark:text-red-400' : ''}>
+                                    {entry.text}
+                                </span>
+                            </div>
+                        ))
+                    )}
+                    <div ref={bottomRef} />
+                </div>
+            </CollapsibleContent>
+        </Collapsible>
+    );
+}
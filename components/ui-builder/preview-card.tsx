@@ -1,5 +1,5 @@
-import { useEffect } from 'react';
-import { CheckCircle, Circle, Loader2, AlertCircle } from 'lucide-react';
+import { useEffect, useRef, useState } from 'react';
+import { CheckCircle, Circle, Loader2, AlertCircle, AlertTriangle } from 'lucide-react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { benchifyFileSchema } from "@/lib/schemas";
@@ -7,18 +7,29 @@ import { z } from "zod";
 import { CodeEditor } from "./code-editor";
 import { DownloadButton } from "./download-button";
 import { ErrorDisplay } from "./error-display";
+import { LogPanel } from "./log-panel";
+import { ConsolePanel } from "./console-panel";
+import { formatChangedRatio, VisualDiff, VisualDiffPanel } from "./visual-diff-panel";
+import { BundleReportPanel } from "./bundle-report-panel";
+import { TestsPanel } from "./tests-panel";
 import { StepTimer } from "./step-timer";
 import { useProgress } from "@/lib/hooks/use-progress";
+import { usePreviewBridge, usePreviewEvents } from "@/lib/hooks/use-preview-events";
+import { getPreviewErrors, SourceLocation } from "@/lib/preview-events";
 import { ProgressStep } from "@/lib/progress-tracker";
 
 
 
 interface BuildError {
-    type: 'typescript' | 'build' | 'runtime';
+    type: 'typescript' | 'build' | 'runtime' | 'lint' | 'dependency' | 'accessibility';
     message: string;
     file?: string;
     line?: number;
     column?: number;
+    code?: string;
+    severity?: 'error' | 'warning';
+    impact?: 'minor' | 'moderate' | 'serious' | 'critical';
+    selector?: string;
 }
 
 interface FixResult {
@@ -42,6 +53,10 @@ interface PreviewCardProps {
     onFixComplete?: (result: FixResult) => void;
     sessionId?: string;
     sandboxId?: string; // Add sandbox ID for reusing existing sandbox
+    onSendToChat?: (instruction: string) => void;
+    // Called when files are added outside a generation (e.g. generated tests)
+    onFilesChange?: (files: z.infer<typeof benchifyFileSchema>) => void;
+    visualDiff?: VisualDiff;
 }
 
 export function PreviewCard({
@@ -53,9 +68,25 @@ export function PreviewCard({
     hasErrors = false,
     onFixComplete,
     sessionId,
-    sandboxId
+    sandboxId,
+    onSendToChat,
+    onFilesChange,
+    visualDiff
 }: PreviewCardProps) {
     const files = code || [];
+    const iframeRef = useRef<HTMLIFrameElement>(null);
+    // Collect console output, errors and timings the generated app reports from inside the iframe
+    usePreviewBridge(iframeRef, sessionId);
+    const { events: previewEvents } = usePreviewEvents(sessionId);
+    const consoleErrorCount = sessionId && previewEvents.length > 0 ? getPreviewErrors(sessionId).length : 0;
+
+    const [activeTab, setActiveTab] = useState('preview');
+    const [sourceLocation, setSourceLocation] = useState<SourceLocation | null>(null);
+
+    const handleOpenSource = (location: SourceLocation) => {
+        setSourceLocation(location);
+        setActiveTab('code');
+    };
     const { progress, isConnected, error: progressError } = useProgress(sessionId || null);
     // Log only when there's actual progress
     if (progress && progress.steps.length > 0) {
@@ -67,13 +98,34 @@ export function PreviewCard({
     const isProgressComplete = progress?.isComplete || false;
     const progressHasError = progress?.hasError || false;
 
+    // Warnings (lint findings, advisory type errors) don't block the preview but can be reviewed and fixed
+    const warnings = buildErrors.filter(error => error.severity === 'warning');
+    const [showWarnings, setShowWarnings] = useState(false);
+    useEffect(() => {
+        setShowWarnings(false);
+    }, [buildErrors]);
+
     return (
         <div className="h-full">
-            <Tabs defaultValue="preview" className="w-full h-full flex flex-col">
+            <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full h-full flex flex-col">
                 <div className="flex items-center justify-between mb-4">
                     <TabsList>
                         <TabsTrigger value="preview">Preview</TabsTrigger>
                         <TabsTrigger value="code">Code</TabsTrigger>
+                        <TabsTrigger value="console" className="gap-1.5">
+                            Console
+                            {consoleErrorCount > 0 && (
+                                <span className="rounded-full bg-red-500 px-1.5 text-[10px] leading-4 text-white">
+                                    {consoleErrorCount}
+                                </span>
+                            )}
+                        </TabsTrigger>
+                        <TabsTrigger value="changes" className="gap-1.5">
+                            Changes
+                            {visualDiff?.unexpected && <AlertTriangle className="h-3 w-3 text-yellow-500" />}
+                        </TabsTrigger>
+                        <TabsTrigger value="tests">Tests</TabsTrigger>
+                        <TabsTrigger value="bundle">Bundle</TabsTrigger>
                     </TabsList>
 
                     <DownloadButton
@@ -82,7 +134,8 @@ export function PreviewCard({
                     />
                 </div>
 
-                <TabsContent value="preview" className="flex-1 m-0">
+                {/* Stay mounted so the iframe keeps running (and reporting to the console) on other tabs */}
+                <TabsContent value="preview" forceMount className="flex-1 m-0 data-[state=inactive]:hidden">
                     {isGenerating && prompt ? (
                         // Show loading progress inside the preview tab
                         <div className="w-full h-full flex items-center justify-center rounded-md border bg-background">
@@ -158,16 +211,44 @@ export function PreviewCard({
                             sessionId={sessionId}
                             sandboxId={sandboxId}
                         />
+                    ) : showWarnings && warnings.length > 0 ? (
+                        <ErrorDisplay
+                            errors={warnings}
+                            currentFiles={files}
+                            onFixComplete={onFixComplete}
+                            sessionId={sessionId}
+                            sandboxId={sandboxId}
+                            onDismiss={() => setShowWarnings(false)}
+                        />
                     ) : previewUrl ? (
                         // Show the actual preview iframe when ready
-                        <div className="w-full h-full overflow-hidden rounded-md border bg-background">
+                        <div className="w-full h-full flex flex-col overflow-hidden rounded-md border bg-background">
+                            {warnings.length > 0 && (
+                                <button
+                                    onClick={() => setShowWarnings(true)}
+                                    className="flex items-center gap-2 border-b bg-yellow-500/10 px-3 py-1.5 text-xs text-yellow-700 dark:text-yellow-400 hover:bg-yellow-500/20"
+                                >
+                                    <AlertTriangle className="h-3 w-3" />
+                                    {warnings.length} warning{warnings.length === 1 ? '' : 's'} found. Review and fix
+                                </button>
+                            )}
+                            {visualDiff?.unexpected && (
+                                <button
+                                    onClick={() => setActiveTab('changes')}
+                                    className="flex items-center gap-2 border-b bg-yellow-500/10 px-3 py-1.5 text-xs text-yellow-700 dark:text-yellow-400 hover:bg-yellow-500/20"
+                                >
+                                    <AlertTriangle className="h-3 w-3" />
+                                    This fix changed {formatChangedRatio(visualDiff)} of the page. Review changes
+                                </button>
+                            )}
                             <iframe
+                                ref={iframeRef}
                                 title="Preview"
                                 src={previewUrl}
-                                className="w-full h-full"
+                                className="w-full flex-1"
                                 sandbox="allow-scripts allow-same-origin"
                             />
-
+                            <LogPanel sandboxId={sandboxId} sessionId={sessionId} />
                         </div>
                     ) : (
                         // Show loading spinner if no preview URL yet
@@ -182,9 +263,44 @@ export function PreviewCard({
 
                 <TabsContent value="code" className="flex-1 m-0">
                     <div className="h-full">
-                        <CodeEditor files={files} />
+                        <CodeEditor
+                            files={files}
+                            selectedPath={sourceLocation?.file}
+                            highlightLine={sourceLocation?.line}
+                        />
                     </div>
                 </TabsContent>
+
+                {/* Keep the console mounted so its filters and selection survive tab switches */}
+                <TabsContent value="console" forceMount className="flex-1 m-0 min-h-0 data-[state=inactive]:hidden">
+                    <ConsolePanel
+                        sessionId={sessionId}
+                        filePaths={files.map(file => file.path)}
+                        onOpenSource={handleOpenSource}
+                        onSendToChat={onSendToChat}
+                    />
+                </TabsContent>
+
+                <TabsContent value="changes" className="flex-1 m-0 min-h-0">
+                    <VisualDiffPanel diff={visualDiff} />
+                </TabsContent>
+
+                {/* Stay mounted so a test run keeps going (and its results survive) on other tabs */}
+                <TabsContent value="tests" forceMount className="flex-1 m-0 min-h-0 data-[state=inactive]:hidden">
+                    <TestsPanel
+                        sandboxId={sandboxId}
+                        sessionId={sessionId}
+                        files={files}
+                        disabled={isGenerating}
+                        onSendToChat={onSendToChat}
+                        onFilesChange={onFilesChange}
+                    />
+                </TabsContent>
+
+                {/* Stay mounted so a build keeps running (and its report survives) on other tabs */}
+                <TabsContent value="bundle" forceMount className="flex-1 m-0 min-h-0 data-[state=inactive]:hidden">
+                    <BundleReportPanel sandboxId={sandboxId} sessionId={sessionId} disabled={isGenerating} />
+                </TabsContent>
             </Tabs>
         </div>
     );
@@ -17,6 +17,11 @@ import {
 } from "@/components/ui/form"
 import { Textarea } from '@/components/ui/textarea';
 import { Switch } from '@/components/ui/switch';
+import { cn } from '@/lib/utils';
+import { DEFAULT_TEMPLATE_ID, TEMPLATE_OPTIONS, TemplateId } from '@/lib/templates';
+
+// Every registered template, so new templates are selectable without touching the form
+const templateIds = TEMPLATE_OPTIONS.map(option => option.id) as [TemplateId, ...TemplateId[]];
 
 const formSchema = z.object({
     description: z.string().min(10, {
@@ -24,6 +29,7 @@ const formSchema = z.object({
     }),
     useBuggyCode: z.boolean(),
     useFixer: z.boolean(),
+    templateId: z.enum(templateIds),
 })
 
 export function PromptForm() {
@@ -35,6 +41,7 @@ export function PromptForm() {
             description: "",
             useBuggyCode: false,
             useFixer: false,
+            templateId: DEFAULT_TEMPLATE_ID,
         },
     })
 
@@ -57,6 +64,7 @@ export function PromptForm() {
         sessionStorage.setItem('initialPrompt', values.description);
         sessionStorage.setItem('useBuggyCode', values.useBuggyCode.toString());
         sessionStorage.setItem('useFixer', values.useFixer.toString());
+        sessionStorage.setItem('templateId', values.templateId);
         sessionStorage.removeItem('builderResult'); // Clear any previous result
 
         // Navigate to the chat page immediately
@@ -84,6 +92,38 @@ export function PromptForm() {
                     )}
                 />
 
+                <FormField
+                    control={form.control}
+                    name="templateId"
+                    render={({ field }) => (
+                        <FormItem>
+                            <FormLabel>Template</FormLabel>
+                            <FormControl>
+                                <div role="radiogroup" className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                                    {TEMPLATE_OPTIONS.map(option => (
+                                        <button
+                                            key={option.id}
+                                            type="button"
+                                            role="radio"
+                                            aria-checked={field.value === option.id}
+                                            onClick={() => field.onChange(option.id)}
+                                            className={cn(
+                                                "rounded-lg border p-3 text-left transition-colors",
+                                                field.value === option.id
+                                                    ? "border-primary bg-primary/10"
+                                                    : "hover:bg-muted/50"
+                                            )}
+                                        >
+                                            <div className="text-sm font-medium">{option.label}</div>
+                                            <div className="text-xs text-muted-foreground">{option.description}</div>
+                                        </button>
+                                    ))}
+                                </div>
+                            </FormControl>
+                        </FormItem>
+                    )}
+                />
+
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                     <FormField
                         control={form.control}
@@ -0,0 +1,297 @@
+import { useEffect, useMemo, useState } from 'react';
+import { AlertCircle, CheckCircle, CircleSlash, FlaskConical, Loader2, MessageSquare, Sparkles, XCircle } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { generateTests } from '@/lib/actions/generate-tests';
+import { runSandboxTests } from '@/lib/actions/run-tests';
+import { getSelectedTemplateId } from '@/lib/templates';
+
+type TestFailureCause = 'component' | 'test';
+
+interface TestCaseResult {
+    file: string;
+    name: string;
+    status: 'passed' | 'failed' | 'skipped';
+    durationMs?: number;
+    failureMessages: string[];
+    cause?: TestFailureCause;
+    explanation?: string;
+}
+
+interface TestFileError {
+    file: string;
+    message: string;
+    cause?: TestFailureCause;
+    explanation?: string;
+}
+
+interface TestRunResult {
+    success: boolean;
+    files: string[];
+    tests: TestCaseResult[];
+    fileErrors: TestFileError[];
+    durationMs: number;
+    ranAt: number;
+}
+
+type ProjectFiles = Array<{ path: string; contents: string }>;
+
+// Testing Library appends a dump of the whole DOM to its errors, keep the instruction readable
+const MAX_FAILURE_LINES = 15;
+
+function trimFailure(message: string): string {
+    const lines = message.split('\n');
+    return lines.length > MAX_FAILURE_LINES ? `${lines.slice(0, MAX_FAILURE_LINES).join('\n')}\n...` : message;
+}
+
+interface TestFailure {
+    title: string;
+    message: string;
+    cause?: TestFailureCause;
+    explanation?: string;
+}
+
+// What to change for each kind of failure
+const FAILURE_GUIDANCE: Record<TestFailureCause | 'unknown', string> = {
+    component: 'These failures are bugs in the components. Change the components so the tests pass, not the tests',
+    test: 'These tests are wrong, the components behave correctly. Change only the test files',
+    unknown: 'Change the components so the tests pass. Only change a test if the test itself is wrong'
+};
+
+/**
+ * Builds the edit instruction for failing tests and test files that didn't run, grouped by
+ * whether the component or the test needs the repair
+ */
+function formatTestFailures(tests: TestCaseResult[], fileErrors: TestFileError[]): string {
+    const failures: TestFailure[] = [
+        ...fileErrors.map(fileError => ({ ...fileError, title: `${fileError.file} (failed to run)` })),
+        ...tests.map(test => ({ ...test, title: `${test.file} > ${test.name}`, message: test.failureMessages.join('\n') }))
+    ];
+
+    const sections = (['component', 'test', 'unknown'] as const).flatMap(cause => {
+        const group = failures.filter(failure => (failure.cause ?? 'unknown') === cause);
+        if (group.length === 0) return [];
+        const details = group.map(failure =>
+            `${failure.title}\n${failure.explanation ? `${failure.explanation}\n` : ''}${trimFailure(failure.message)}`
+        );
+        return [`${FAILURE_GUIDANCE[cause]}:\n\n${details.join('\n\n')}`];
+    });
+    return `Fix the following failing tests:\n\n${sections.join('\n\n')}`;
+}
+
+function CauseBadge({ cause, explanation }: { cause?: TestFailureCause; explanation?: string }) {
+    if (!cause) return null;
+    return (
+        <Badge
+            variant="outline"
+            title={explanation}
+            className={cause === 'component'
+                ? 'h-4 px-1.5 text-[10px] border-red-500/40 text-red-700 dark:text-red-400'
+                : 'h-4 px-1.5 text-[10px] border-yellow-500/40 text-yellow-700 dark:text-yellow-400'}
+        >
+            {cause === 'component' ? 'Component bug' : 'Test bug'}
+        </Badge>
+    );
+}
+
+function StatusIcon({ status }: { status: TestCaseResult['status'] }) {
+    switch (status) {
+        case 'passed':
+            return <CheckCircle className="h-3 w-3 shrink-0 text-green-500" />;
+        case 'failed':
+            return <XCircle className="h-3 w-3 shrink-0 text-red-500" />;
+        default:
+            return <CircleSlash className="h-3 w-3 shrink-0 text-muted-foreground" />;
+    }
+}
+
+interface TestsPanelProps {
+    sandboxId?: string;
+    // Session that owns the sandbox
+    sessionId?: string;
+    files: ProjectFiles;
+    disabled?: boolean;
+    onSendToChat?: (instruction: string) => void;
+    // Called with the project including newly generated tests
+    onFilesChange?: (files: ProjectFiles) => void;
+}
+
+export function TestsPanel({ sandboxId, sessionId, files, disabled = false, onSendToChat, onFilesChange }: TestsPanelProps) {
+    // undefined: not run yet, null: the project has no test files
+    const [result, setResult] = useState<TestRunResult | null | undefined>(undefined);
+    const [isRunning, setIsRunning] = useState(false);
+    const [isGeneratingTests, setIsGeneratingTests] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const isBusy = isRunning || isGeneratingTests;
+
+    // Results describe one sandbox's code
+    useEffect(() => {
+        setResult(undefined);
+        setError(null);
+    }, [sandboxId]);
+
+    const handleRun = async () => {
+        if (!sandboxId || !sessionId || isBusy) return;
+
+        setIsRunning(true);
+        setError(null);
+        try {
+            const response = await runSandboxTests(sandboxId, sessionId, getSelectedTemplateId());
+            if ('error' in response) {
+                setError(response.message);
+            } else {
+                setResult(response.result);
+            }
+        } catch (runError) {
+            setError(runError instanceof Error ? runError.message : String(runError));
+        } finally {
+            setIsRunning(false);
+        }
+    };
+
+    const handleGenerate = async () => {
+        if (!sandboxId || !sessionId || isBusy) return;
+
+        setIsGeneratingTests(true);
+        setError(null);
+        try {
+            const response = await generateTests(sandboxId, sessionId, files, getSelectedTemplateId());
+            if ('error' in response) {
+                setError(response.message);
+            } else {
+                onFilesChange?.(response.files);
+                setResult(response.result);
+            }
+        } catch (generateError) {
+            setError(generateError instanceof Error ? generateError.message : String(generateError));
+        } finally {
+            setIsGeneratingTests(false);
+        }
+    };
+
+    const hasComponents = files.some(file => file.path.startsWith('src/components/'));
+
+    const testsByFile = useMemo(() => {
+        const groups = new Map<string, TestCaseResult[]>();
+        for (const test of result?.tests ?? []) {
+            groups.set(test.file, [...(groups.get(test.file) ?? []), test]);
+        }
+        return Array.from(groups);
+    }, [result]);
+
+    const failedTests = result?.tests.filter(test => test.status === 'failed') ?? [];
+    const fileErrors = result?.fileErrors ?? [];
+    const countOf = (status: TestCaseResult['status']) => result?.tests.filter(test => test.status === status).length ?? 0;
+
+    const handleFix = (tests: TestCaseResult[], errors: TestRunResult['fileErrors']) => {
+        onSendToChat?.(formatTestFailures(tests, errors));
+    };
+
+    return (
+        <div className="flex h-full flex-col rounded-md border bg-background">
+            <div className="flex flex-wrap items-center gap-2 border-b px-3 py-2 text-xs">
+                <Button size="sm" variant="outline" onClick={handleRun} disabled={!sandboxId || !sessionId || disabled || isBusy}>
+                    {isRunning ? <Loader2 className="mr-1 h-3 w-3 animate-spin" /> : <FlaskConical className="mr-1 h-3 w-3" />}
+                    {isRunning ? 'Running...' : 'Run tests'}
+                </Button>
+                <Button size="sm" variant="outline" onClick={handleGenerate} disabled={!sandboxId || !sessionId || !hasComponents || disabled || isBusy}>
+                    {isGeneratingTests ? <Loader2 className="mr-1 h-3 w-3 animate-spin" /> : <Sparkles className="mr-1 h-3 w-3" />}
+                    {isGeneratingTests ? 'Writing tests...' : 'Generate tests'}
+                </Button>
+
+                {onSendToChat && (failedTests.length > 0 || fileErrors.length > 0) && (
+                    <Button size="sm" variant="outline" onClick={() => handleFix(failedTests, fileErrors)}>
+                        <MessageSquare className="mr-1 h-3 w-3" />
+                        Fix failing tests
+                    </Button>
+                )}
+
+                {result && (
+                    <div className="ml-auto flex items-center gap-2 text-muted-foreground">
+                        <span className="text-green-700 dark:text-green-400">{countOf('passed')} passed</span>
+                        {countOf('failed') > 0 && <span className="text-red-600 dark:text-red-400">{countOf('failed')} failed</span>}
+                        {countOf('skipped') > 0 && <span>{countOf('skipped')} skipped</span>}
+                        <Badge variant="secondary" className="h-4 px-1.5 text-[10px]">
+                            {(result.durationMs / 1000).toFixed(1)}s
+                        </Badge>
+                    </div>
+                )}
+            </div>
+
+            <ScrollArea className="flex-1 min-h-0">
+                <div className="space-y-4 p-3 text-xs">
+                    {error && (
+                        <p className="text-red-600 dark:text-red-400">{error}</p>
+                    )}
+
+                    {result === undefined && !error && (
+                        <p className="text-muted-foreground">
+                            Run the project&apos;s <code>*.test.tsx</code> files with Vitest and Testing Library, or generate tests for the components in <code>src/components</code> and run them. Missing test packages are installed first.
+                        </p>
+                    )}
+
+                    {result === null && (
+                        <p className="text-muted-foreground">No test files found in src/.</p>
+                    )}
+
+                    {fileErrors.map(fileError => (
+                        <div key={fileError.file} className="rounded border border-red-500/30 bg-red-500/5 p-2">
+                            <div className="flex items-center gap-2 font-mono text-red-700 dark:text-red-400">
+                                <AlertCircle className="h-3 w-3 shrink-0" />
+                                <span className="flex-1 break-all">{fileError.file}</span>
+                                <CauseBadge cause={fileError.cause} explanation={fileError.explanation} />
+                                {onSendToChat && (
+                                    <button
+                                        onClick={() => handleFix([], [fileError])}
+                                        className="text-muted-foreground hover:text-foreground"
+                                        title="Ask AI to fix this"
+                                    >
+                                        <MessageSquare className="h-3 w-3" />
+                                    </button>
+                                )}
+                            </div>
+                            {fileError.explanation && <p className="mt-1 text-muted-foreground">{fileError.explanation}</p>}
+                            <pre className="mt-1 whitespace-pre-wrap font-mono text-red-700 dark:text-red-400">{fileError.message}</pre>
+                        </div>
+                    ))}
+
+                    {testsByFile.map(([file, tests]) => (
+                        <div key={file}>
+                            <h4 className="mb-1 font-mono font-medium">{file}</h4>
+                            <div className="space-y-1">
+                                {tests.map(test => (
+                                    <div key={test.name}>
+                                        <div className="flex items-center gap-2">
+                                            <StatusIcon status={test.status} />
+                                            <span className={test.status === 'skipped' ? 'flex-1 text-muted-foreground' : 'flex-1'}>{test.name}</span>
+                                            <CauseBadge cause={test.cause} explanation={test.explanation} />
+                                            {test.durationMs !== undefined && (
+                                                <span className="text-muted-foreground">{test.durationMs}ms</span>
+                                            )}
+                                            {test.status === 'failed' && onSendToChat && (
+                                                <button
+                                                    onClick={() => handleFix([test], [])}
+                                                    className="text-muted-foreground hover:text-foreground"
+                                                    title="Ask AI to fix this"
+                                                >
+                                                    <MessageSquare className="h-3 w-3" />
+                                                </button>
+                                            )}
+                                        </div>
+                                        {test.explanation && <p className="ml-5 mt-1 text-muted-foreground">{test.explanation}</p>}
+                                        {test.failureMessages.length > 0 && (
+                                            <pre className="ml-5 mt-1 max-h-48 overflow-auto whitespace-pre-wrap rounded border border-red-500/30 bg-red-500/5 p-2 font-mono text-red-700 dark:text-red-400">
+                                                {test.failureMessages.join('\n')}
+                                            </pre>
+                                        )}
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            </ScrollArea>
+        </div>
+    );
+}
@@ -0,0 +1,121 @@
+import { useState } from 'react';
+import Image from 'next/image';
+import { AlertTriangle, Eye } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { cn } from '@/lib/utils';
+
+interface Screenshot {
+    id: string;
+    url: string;
+    capturedAt: number;
+}
+
+export interface VisualDiff {
+    before: Screenshot;
+    after: Screenshot;
+    diffUrl: string;
+    width: number;
+    height: number;
+    changedRatio: number;
+    regions: Array<{ x: number; y: number; width: number; height: number }>;
+    unexpected: boolean;
+}
+
+type DiffView = 'after' | 'before' | 'diff';
+
+const VIEWS: Array<{ value: DiffView; label: string }> = [
+    { value: 'after', label: 'After' },
+    { value: 'before', label: 'Before' },
+    { value: 'diff', label: 'Diff' }
+];
+
+export function formatChangedRatio(diff: VisualDiff): string {
+    const percent = diff.changedRatio * 100;
+    return percent > 0 && percent < 0.1 ? '<0.1%' : `${percent.toFixed(1)}%`;
+}
+
+export function VisualDiffPanel({ diff }: { diff?: VisualDiff }) {
+    const [view, setView] = useState<DiffView>('after');
+    const [showRegions, setShowRegions] = useState(true);
+
+    if (!diff) {
+        return (
+            <div className="flex h-full items-center justify-center rounded-md border bg-background text-sm text-muted-foreground">
+                Changes appear here after an edit once both versions have rendered.
+            </div>
+        );
+    }
+
+    const imageUrl = view === 'before' ? diff.before.url : view === 'diff' ? diff.diffUrl : diff.after.url;
+
+    return (
+        <div className="flex h-full flex-col rounded-md border bg-background">
+            <div className="flex flex-wrap items-center gap-2 border-b px-3 py-2 text-xs">
+                {VIEWS.map(option => (
+                    <button
+                        key={option.value}
+                        onClick={() => setView(option.value)}
+                        className={cn(
+                            'rounded px-2 py-0.5 transition-colors',
+                            view === option.value ? 'bg-muted text-foreground' : 'text-muted-foreground hover:text-foreground'
+                        )}
+                    >
+                        {option.label}
+                    </button>
+                ))}
+                <button
+                    onClick={() => setShowRegions(prev => !prev)}
+                    className={cn(
+                        'flex items-center gap-1 rounded px-2 py-0.5 transition-colors',
+                        showRegions ? 'bg-muted text-foreground' : 'text-muted-foreground hover:text-foreground'
+                    )}
+                >
+                    <Eye className="h-3 w-3" />
+                    Regions
+                </button>
+
+                <div className="ml-auto flex items-center gap-2 text-muted-foreground">
+                    {formatChangedRatio(diff)} of the page changed
+                    <Badge variant="secondary" className="h-4 px-1.5 text-[10px]">
+                        {diff.regions.length} region{diff.regions.length === 1 ? '' : 's'}
+                    </Badge>
+                </div>
+            </div>
+
+            {diff.unexpected && (
+                <div className="flex items-center gap-2 border-b bg-yellow-500/10 px-3 py-1.5 text-xs text-yellow-700 dark:text-yellow-400">
+                    <AlertTriangle className="h-3 w-3" />
+                    This edit was only meant to fix errors but changed a large part of the page. Check that nothing was redesigned.
+                </div>
+            )}
+
+            <ScrollArea className="flex-1 min-h-0">
+                <div className="p-3">
+                    <div className="relative">
+                        <Image
+                            src={imageUrl}
+                            alt={`${view} screenshot`}
+                            width={diff.width}
+                            height={diff.height}
+                            unoptimized
+                            className="block h-auto w-full rounded border"
+                        />
+                        {showRegions && diff.regions.map((region, index) => (
+                            <div
+                                key={index}
+                                className="pointer-events-none absolute border-2 border-red-500/80 bg-red-500/5"
+                                style={{
+                                    left: `${(region.x / diff.width) * 100}%`,
+                                    top: `${(region.y / diff.height) * 100}%`,
+                                    width: `${(region.width / diff.width) * 100}%`,
+                                    height: `${(region.height / diff.height) * 100}%`
+                                }}
+                            />
+                        ))}
+                    </div>
+                </div>
+            </ScrollArea>
+        </div>
+    );
+}
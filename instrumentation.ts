@@ -0,0 +1,7 @@
+export async function register() {
+    // Boot the warm sandbox pool when the Node.js server starts
+    if (process.env.NEXT_RUNTIME === 'nodejs') {
+        const { warmSandboxPool } = await import('./lib/e2b');
+        warmSandboxPool();
+    }
+}
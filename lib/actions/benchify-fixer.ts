@@ -1,9 +1,13 @@
 'use server';
 
 import { Benchify } from 'benchify';
-import { createSandbox, updateSandboxFiles } from '@/lib/e2b';
+import { createSandbox, updateOrRestoreSandbox } from '@/lib/e2b';
 import { FixerRunResponse } from 'benchify/resources/fixer.mjs';
 import { ProgressTracker } from '@/lib/progress-tracker';
+import { BuildError, PreviewScreenshot, VisualDiff } from '@/lib/types';
+import { getLatestScreenshot } from '@/lib/screenshots';
+import { diffPreviewVersions } from '@/lib/visual-diff';
+import { TemplateId } from '@/lib/templates';
 
 const benchify = new Benchify({
     baseURL: 'http://localhost:8082',
@@ -12,8 +16,10 @@ const benchify = new Benchify({
 
 type BenchifyFixerInput = {
     files: Array<{ path: string; contents: string }>;
-    sessionId?: string;
+    sessionId?: string; // Progress session
+    ownerSessionId?: string; // Session that owns the sandbox, if not the progress session
     existingSandboxId?: string; // Optional: reuse existing sandbox instead of creating new one
+    templateId?: TemplateId;
 };
 
 export type BenchifyFixerResult = {
@@ -22,14 +28,13 @@ export type BenchifyFixerResult = {
     buildOutput: string;
     previewUrl: string;
     sandboxId: string; // Add sandbox ID so it can be reused
-    buildErrors?: Array<{
-        type: 'typescript' | 'build' | 'runtime';
-        message: string;
-        file?: string;
-        line?: number;
-        column?: number;
-    }>;
+    templateId?: TemplateId;
+    buildErrors?: BuildError[];
     hasErrors?: boolean;
+    screenshot?: PreviewScreenshot;
+    // How the preview changed compared to the version before the fix
+    visualDiff?: VisualDiff;
+    sandboxRestored?: boolean;
     sessionId?: string;
 } | {
     error: string;
@@ -38,7 +43,8 @@ export type BenchifyFixerResult = {
 };
 
 export async function runBenchifyFixer(input: BenchifyFixerInput): Promise<BenchifyFixerResult> {
-    const { files, sessionId, existingSandboxId } = input;
+    const { files, sessionId, existingSandboxId, templateId } = input;
+    const ownerSessionId = input.ownerSessionId ?? sessionId;
 
     // Define the steps for the fixer process (different steps for new vs existing sandbox)
     const steps = existingSandboxId ? [
@@ -67,6 +73,26 @@ export async function runBenchifyFixer(input: BenchifyFixerInput): Promise<Bench
             label: 'Verifying Update',
             description: 'Ensuring the optimized code is working correctly'
         },
+        {
+            id: 'checking-runtime',
+            label: 'Checking Runtime',
+            description: 'Loading the app in a headless browser to catch runtime errors'
+        },
+        {
+            id: 'type-checking',
+            label: 'Type Checking',
+            description: 'Checking the project for TypeScript errors'
+        },
+        {
+            id: 'linting',
+            label: 'Linting',
+            description: 'Checking the code with ESLint'
+        },
+        {
+            id: 'checking-accessibility',
+            label: 'Checking Accessibility',
+            description: 'Auditing the rendered app with axe-core'
+        },
         {
             id: 'finalizing-preview',
             label: 'Finalizing',
@@ -93,6 +119,26 @@ export async function runBenchifyFixer(input: BenchifyFixerInput): Promise<Bench
             label: 'Starting Dev Server',
             description: 'Starting development server and running health checks'
         },
+        {
+            id: 'checking-runtime',
+            label: 'Checking Runtime',
+            description: 'Loading the app in a headless browser to catch runtime errors'
+        },
+        {
+            id: 'type-checking',
+            label: 'Type Checking',
+            description: 'Checking the project for TypeScript errors'
+        },
+        {
+            id: 'linting',
+            label: 'Linting',
+            description: 'Checking the code with ESLint'
+        },
+        {
+            id: 'checking-accessibility',
+            label: 'Checking Accessibility',
+            description: 'Auditing the rendered app with axe-core'
+        },
         {
             id: 'finalizing-preview',
             label: 'Loading Application',
@@ -138,32 +184,47 @@ export async function runBenchifyFixer(input: BenchifyFixerInput): Promise<Bench
 
         // Step 2-5: Create or update sandbox with detailed progress tracking
         let sandboxResult;
+        let visualDiff: VisualDiff | undefined;
         if (existingSandboxId) {
             // Update existing sandbox with optimized files
             console.log(`🔄 Updating existing sandbox: ${existingSandboxId}`);
-            sandboxResult = await updateSandboxFiles({
+            if (!ownerSessionId) {
+                throw new Error('A session is required to update an existing sandbox');
+            }
+            const previousScreenshot = getLatestScreenshot(existingSandboxId);
+            sandboxResult = await updateOrRestoreSandbox({
                 sandboxId: existingSandboxId,
                 files: repairedFiles,
-                progressTracker: progressTracker
+                progressTracker: progressTracker,
+                sessionId: ownerSessionId,
+                templateId
             });
+            // Benchify only repairs code, so any large visual change is unexpected
+            visualDiff = await diffPreviewVersions(previousScreenshot, sandboxResult.screenshot, { narrow: true });
         } else {
             // Create new sandbox
             console.log('🆕 Creating new sandbox');
             progressTracker?.startStep('creating-sandbox');
-            sandboxResult = await createSandbox({ files: repairedFiles, progressTracker: progressTracker });
+            sandboxResult = await createSandbox({ files: repairedFiles, progressTracker: progressTracker, sessionId: ownerSessionId, templateId });
         }
 
         // Return the results in the same format as generate-app
         return {
             originalFiles: files,
             repairedFiles: sandboxResult.allFiles,
-            buildOutput: existingSandboxId
+            buildOutput: sandboxResult.restored
+                ? `Sandbox restored with optimized code, ID: ${sandboxResult.sbxId}`
+                : existingSandboxId
                 ? `Sandbox updated with optimized code, ID: ${sandboxResult.sbxId}`
                 : `Sandbox created with template: ${sandboxResult.template}, ID: ${sandboxResult.sbxId}`,
             previewUrl: sandboxResult.url,
             sandboxId: sandboxResult.sbxId,
+            templateId: sandboxResult.templateId,
             buildErrors: sandboxResult.buildErrors,
             hasErrors: sandboxResult.hasErrors,
+            screenshot: sandboxResult.screenshot,
+            visualDiff,
+            sandboxRestored: sandboxResult.restored,
             sessionId,
         };
     } catch (error) {
@@ -1,15 +1,74 @@
 'use server';
 
 import { generateAppCode } from '@/lib/openai';
-import { createSandbox, updateSandboxFiles } from '@/lib/e2b';
+import { createSandbox, updateOrRestoreSandbox } from '@/lib/e2b';
 import { Benchify } from 'benchify';
 import { ProgressTracker } from '@/lib/progress-tracker';
+import { BuildError, PreviewScreenshot, VisualDiff } from '@/lib/types';
+import { getLatestScreenshot } from '@/lib/screenshots';
+import { diffPreviewVersions, isNarrowEditInstruction } from '@/lib/visual-diff';
+import { TemplateId } from '@/lib/templates';
+import { formatDependencyPolicyInstruction, getDependencyPolicy } from '@/lib/sandbox/dependency-policy';
 
 const benchify = new Benchify({
     baseURL: 'http://localhost:8082',
     apiKey: process.env.BENCHIFY_API_KEY,
 });
 
+// Steps of the extra pass that replaces packages the dependency policy rejected
+const DEPENDENCY_FIX_STEPS = [
+    {
+        id: 'fixing-dependencies',
+        label: 'Fixing Dependencies',
+        description: 'Asking the AI to replace packages the dependency policy rejected'
+    },
+    {
+        id: 'updating-files',
+        label: 'Updating Files',
+        description: 'Applying the revised code to your sandbox'
+    },
+    {
+        id: 'installing-deps',
+        label: 'Installing Dependencies',
+        description: 'Installing the replacement packages'
+    },
+    {
+        id: 'hot-reloading',
+        label: 'Hot Reloading',
+        description: 'Applying changes with hot reload for instant updates'
+    },
+    {
+        id: 'verifying-update',
+        label: 'Verifying Update',
+        description: 'Ensuring the updated code is working correctly'
+    },
+    {
+        id: 'checking-runtime',
+        label: 'Checking Runtime',
+        description: 'Loading the app in a headless browser to catch runtime errors'
+    },
+    {
+        id: 'type-checking',
+        label: 'Type Checking',
+        description: 'Checking the project for TypeScript errors'
+    },
+    {
+        id: 'linting',
+        label: 'Linting',
+        description: 'Checking the code with ESLint'
+    },
+    {
+        id: 'checking-accessibility',
+        label: 'Checking Accessibility',
+        description: 'Auditing the rendered app with axe-core'
+    },
+    {
+        id: 'finalizing-preview',
+        label: 'Finalizing',
+        description: 'Your updated application is ready!'
+    }
+];
+
 type GenerateAppInput = {
     type: string;
     description: string;
@@ -19,8 +78,10 @@ type GenerateAppInput = {
     editInstruction?: string;
     useBuggyCode?: boolean;
     useFixer?: boolean;
-    sessionId?: string;
+    sessionId?: string; // Progress session
+    ownerSessionId?: string; // Session that owns the sandbox, if not the progress session
     existingSandboxId?: string; // Add support for reusing existing sandbox
+    templateId?: TemplateId; // App template (defaults to Vite + React)
 };
 
 export type GenerateAppResult = {
@@ -29,14 +90,13 @@ export type GenerateAppResult = {
     buildOutput: string;
     previewUrl: string;
     sandboxId?: string;
-    buildErrors?: Array<{
-        type: 'typescript' | 'build' | 'runtime';
-        message: string;
-        file?: string;
-        line?: number;
-        column?: number;
-    }>;
+    templateId?: TemplateId;
+    buildErrors?: BuildError[];
     hasErrors?: boolean;
+    screenshot?: PreviewScreenshot;
+    // How the preview changed compared to the version before this edit
+    visualDiff?: VisualDiff;
+    sandboxRestored?: boolean;
     editInstruction?: string;
     sessionId?: string;
 } | {
@@ -46,10 +106,11 @@ export type GenerateAppResult = {
 };
 
 export async function generateApp(input: GenerateAppInput): Promise<GenerateAppResult> {
-    const { description, existingFiles, editInstruction, useBuggyCode, useFixer, sessionId, existingSandboxId } = input;
+    const { description, existingFiles, editInstruction, useBuggyCode, useFixer, sessionId, existingSandboxId, templateId } = input;
+    const ownerSessionId = input.ownerSessionId ?? sessionId;
 
     // Detect if this is a repair operation (fixing build errors)
-    const isRepairMode = existingSandboxId && editInstruction && editInstruction.includes('Fix the following build errors');
+    const isRepairMode = existingSandboxId && editInstruction && /Fix the following (build errors|warnings)/.test(editInstruction);
 
     // Define the actual steps that will happen (different for new vs existing vs repair)
     const steps = existingSandboxId ? [
@@ -85,6 +146,26 @@ export async function generateApp(input: GenerateAppInput): Promise<GenerateAppR
             label: 'Verifying Update',
             description: 'Ensuring the updated code is working correctly'
         },
+        {
+            id: 'checking-runtime',
+            label: 'Checking Runtime',
+            description: 'Loading the app in a headless browser to catch runtime errors'
+        },
+        {
+            id: 'type-checking',
+            label: 'Type Checking',
+            description: 'Checking the project for TypeScript errors'
+        },
+        {
+            id: 'linting',
+            label: 'Linting',
+            description: 'Checking the code with ESLint'
+        },
+        {
+            id: 'checking-accessibility',
+            label: 'Checking Accessibility',
+            description: 'Auditing the rendered app with axe-core'
+        },
         {
             id: 'finalizing-preview',
             label: 'Finalizing',
@@ -116,6 +197,26 @@ export async function generateApp(input: GenerateAppInput): Promise<GenerateAppR
             label: 'Starting Dev Server',
             description: 'Starting development server and running health checks'
         },
+        {
+            id: 'checking-runtime',
+            label: 'Checking Runtime',
+            description: 'Loading the app in a headless browser to catch runtime errors'
+        },
+        {
+            id: 'type-checking',
+            label: 'Type Checking',
+            description: 'Checking the project for TypeScript errors'
+        },
+        {
+            id: 'linting',
+            label: 'Linting',
+            description: 'Checking the code with ESLint'
+        },
+        {
+            id: 'checking-accessibility',
+            label: 'Checking Accessibility',
+            description: 'Auditing the rendered app with axe-core'
+        },
         {
             id: 'finalizing-preview',
             label: 'Loading Application',
@@ -136,7 +237,7 @@ export async function generateApp(input: GenerateAppInput): Promise<GenerateAppR
     try {
         // Step 1: Generate code
         progressTracker?.startStep('generating-code');
-        const filesToSandbox = await generateAppCode(description, existingFiles, editInstruction, useBuggyCode);
+        const { files: filesToSandbox, operations } = await generateAppCode(description, existingFiles, editInstruction, useBuggyCode, templateId);
         progressTracker?.completeStep('generating-code');
 
         let repairedFiles = filesToSandbox;
@@ -166,13 +267,20 @@ export async function generateApp(input: GenerateAppInput): Promise<GenerateAppR
 
         // Step 3: Create or update sandbox with progress tracking
         let sandboxResult;
+        const previousScreenshot = existingSandboxId ? getLatestScreenshot(existingSandboxId) : undefined;
         if (existingSandboxId) {
             // Update existing sandbox with generated/fixed files
             console.log(`🔄 Updating existing sandbox: ${existingSandboxId}`);
-            sandboxResult = await updateSandboxFiles({
+            if (!ownerSessionId) {
+                throw new Error('A session is required to update an existing sandbox');
+            }
+            sandboxResult = await updateOrRestoreSandbox({
                 sandboxId: existingSandboxId,
                 files: repairedFiles,
-                progressTracker: progressTracker
+                operations,
+                progressTracker: progressTracker,
+                sessionId: ownerSessionId,
+                templateId
             });
         } else {
             // Create new sandbox
@@ -180,23 +288,63 @@ export async function generateApp(input: GenerateAppInput): Promise<GenerateAppR
             progressTracker?.startStep('creating-sandbox');
             sandboxResult = await createSandbox({
                 files: repairedFiles,
-                progressTracker: progressTracker
+                progressTracker: progressTracker,
+                sessionId: ownerSessionId,
+                templateId
+            });
+        }
+
+        // Step 4 (optional): ask the AI once to resolve dependency policy violations
+        const policyErrors = sandboxResult.buildErrors?.filter(error => error.type === 'dependency') ?? [];
+        // Without a session the new sandbox has no owner to update it as
+        if (policyErrors.length > 0 && getDependencyPolicy().feedback && ownerSessionId) {
+            console.log('📦 Feeding dependency policy violations back to the AI');
+            progressTracker?.rerunSteps(DEPENDENCY_FIX_STEPS);
+            progressTracker?.startStep('fixing-dependencies');
+            const policyFix = await generateAppCode(
+                description,
+                sandboxResult.allFiles,
+                formatDependencyPolicyInstruction(policyErrors),
+                false,
+                templateId
+            );
+            progressTracker?.completeStep('fixing-dependencies');
+
+            sandboxResult = await updateOrRestoreSandbox({
+                sandboxId: sandboxResult.sbxId,
+                files: policyFix.files,
+                operations: policyFix.operations,
+                progressTracker: progressTracker,
+                sessionId: ownerSessionId,
+                templateId
             });
         }
 
+        const visualDiff = existingSandboxId
+            ? await diffPreviewVersions(previousScreenshot, sandboxResult.screenshot, {
+                narrow: isNarrowEditInstruction(editInstruction)
+            })
+            : undefined;
+
         progressTracker?.completeStep('finalizing-preview');
 
         // Return the results
         return {
             originalFiles: filesToSandbox,
             repairedFiles: sandboxResult.allFiles,
-            buildOutput: existingSandboxId
+            buildOutput: sandboxResult.restored
+                ? `Sandbox restored with AI-generated code, ID: ${sandboxResult.sbxId}`
+                : existingSandboxId
                 ? `Sandbox updated with AI-generated code, ID: ${sandboxResult.sbxId}`
                 : `Sandbox created with template: ${sandboxResult.template}, ID: ${sandboxResult.sbxId}`,
             previewUrl: sandboxResult.url,
             sandboxId: sandboxResult.sbxId,
+            templateId: sandboxResult.templateId,
             buildErrors: sandboxResult.buildErrors,
             hasErrors: sandboxResult.hasErrors,
+            screenshot: sandboxResult.screenshot,
+            visualDiff,
+            sandboxRestored: sandboxResult.restored,
             sessionId,
             ...(editInstruction && { editInstruction }),
         };
@@ -0,0 +1,51 @@
+'use server';
+
+import { z } from 'zod';
+import { classifyTestFailures, generateComponentTests } from '@/lib/openai';
+import { getSessionSandbox } from '@/lib/sandbox/lifecycle';
+import { syncFilesToSandbox } from '@/lib/sandbox/sync';
+import { isTestFile, runTests } from '@/lib/sandbox/tests';
+import { benchifyFileSchema } from '@/lib/schemas';
+import { getTemplate, TemplateId } from '@/lib/templates';
+import { TestRunResult } from '@/lib/types';
+
+export type GenerateTestsResult = {
+    // The project with the generated tests merged in
+    files: z.infer<typeof benchifyFileSchema>;
+    result: TestRunResult | null;
+} | {
+    error: string;
+    message: string;
+};
+
+/**
+ * Writes tests for the components in src/components, adds them to a sandbox owned by the session and runs them.
+ * Failures are classified as component bugs or test bugs so the right side gets repaired.
+ */
+export async function generateTests(
+    sandboxId: string,
+    sessionId: string,
+    files: z.infer<typeof benchifyFileSchema>,
+    templateId?: TemplateId
+): Promise<GenerateTestsResult> {
+    try {
+        const template = getTemplate(templateId);
+        const sandbox = await getSessionSandbox(sandboxId, sessionId);
+
+        const { files: mergedFiles } = await generateComponentTests(files, template);
+        // Only the tests are new, the rest of the project is already in the sandbox
+        await syncFilesToSandbox(sandbox, template.workdir, mergedFiles.filter(file => isTestFile(file.path)));
+
+        const result = await runTests(sandbox, template);
+        return {
+            files: mergedFiles,
+            result: result && !result.success ? await classifyTestFailures(mergedFiles, result) : result
+        };
+    } catch (error) {
+        console.error('Generating tests failed:', error);
+        return {
+            error: 'Generating tests failed',
+            message: error instanceof Error ? error.message : String(error)
+        };
+    }
+}
@@ -0,0 +1,49 @@
+'use server';
+
+import { getSessionSandbox } from '@/lib/sandbox/lifecycle';
+import { readBuildOutput, runProductionBuild } from '@/lib/sandbox/production-build';
+import { createSiteId, getSiteUrl, publishSite } from '@/lib/sites';
+import { getTemplate, TemplateId } from '@/lib/templates';
+import { BundleReport, PublishedSite } from '@/lib/types';
+
+export type ProductionBuildResult = {
+    report: BundleReport;
+    // Where the built app is served from the Next app, if the build succeeded
+    site?: PublishedSite;
+} | {
+    error: string;
+    message: string;
+};
+
+/**
+ * Runs a production build (vite build) in a sandbox owned by the session, reports the bundle sizes
+ * and publishes the output under /sites/<id> so it outlives the sandbox
+ */
+export async function buildForProduction(sandboxId: string, sessionId: string, templateId?: TemplateId): Promise<ProductionBuildResult> {
+    try {
+        const template = getTemplate(templateId);
+        const sandbox = await getSessionSandbox(sandboxId, sessionId);
+
+        // Asset URLs in the build point at the site's own path
+        const siteId = createSiteId();
+        const report = await runProductionBuild(sandbox, template.workdir, { basePath: getSiteUrl(siteId) });
+        if (!report.success) {
+            return { report };
+        }
+
+        try {
+            const site = await publishSite(siteId, sandboxId, await readBuildOutput(sandbox, template.workdir));
+            return { report, site };
+        } catch (error) {
+            // The report is still useful without a published copy
+            console.error('Publishing the build failed:', error);
+            return { report };
+        }
+    } catch (error) {
+        console.error('Production build failed:', error);
+        return {
+            error: 'Production build failed',
+            message: error instanceof Error ? error.message : String(error)
+        };
+    }
+}
@@ -0,0 +1,31 @@
+'use server';
+
+import { getSessionSandbox } from '@/lib/sandbox/lifecycle';
+import { runTests } from '@/lib/sandbox/tests';
+import { getTemplate, TemplateId } from '@/lib/templates';
+import { TestRunResult } from '@/lib/types';
+
+export type RunTestsResult = {
+    // null when the project has no test files
+    result: TestRunResult | null;
+} | {
+    error: string;
+    message: string;
+};
+
+/**
+ * Runs the project's Vitest tests in a sandbox owned by the session and returns the result of every test
+ */
+export async function runSandboxTests(sandboxId: string, sessionId: string, templateId?: TemplateId): Promise<RunTestsResult> {
+    try {
+        const template = getTemplate(templateId);
+        const sandbox = await getSessionSandbox(sandboxId, sessionId);
+        return { result: await runTests(sandbox, template) };
+    } catch (error) {
+        console.error('Running tests failed:', error);
+        return {
+            error: 'Running tests failed',
+            message: error instanceof Error ? error.message : String(error)
+        };
+    }
+}
@@ -0,0 +1,20 @@
+'use server';
+
+import { DEV_SERVER_PORT } from '@/lib/e2b';
+import { assertSandboxOwner, keepAlive, killSandbox } from '@/lib/sandbox/lifecycle';
+
+/**
+ * Called periodically while a chat tab is open so the sandbox is not reaped
+ */
+export async function keepSandboxAlive(sandboxId: string, sessionId: string): Promise<{ alive: boolean }> {
+    const alive = await keepAlive(sandboxId, sessionId);
+    return { alive };
+}
+
+/**
+ * Kills a sandbox explicitly, e.g. when the user starts a new project. Only the session that created it may do so.
+ */
+export async function releaseSandbox(sandboxId: string, sessionId: string): Promise<void> {
+    assertSandboxOwner(sandboxId, sessionId);
+    await killSandbox(sandboxId, { port: DEV_SERVER_PORT });
+}
@@ -1,87 +1,155 @@
-import { Sandbox } from '@e2b/code-interpreter';
-import { benchifyFileSchema } from './schemas';
+import { benchifyFileSchema, FileOperation } from './schemas';
+import { BuildError, PreviewScreenshot } from './types';
 import { z } from 'zod';
-import { fetchAllSandboxFiles } from './file-filter';
 import { applyTransformations } from './sandbox-helpers';
 import { ProgressTracker } from './progress-tracker';
-
-const E2B_API_KEY = process.env.E2B_API_KEY;
-
-if (!E2B_API_KEY) {
-    throw new Error('E2B_API_KEY is not set');
-}
-
-interface BuildError {
-    type: 'typescript' | 'build' | 'runtime';
-    message: string;
-    file?: string;
-    line?: number;
-    column?: number;
-}
+import { getSandboxProvider, SandboxHandle } from './sandbox';
+import { getSandboxPool } from './sandbox/pool';
+import { getSandboxOwner, getSessionSandbox, registerSandbox, SandboxAccessError, SandboxExpiredError } from './sandbox/lifecycle';
+import { fetchChangedSandboxFiles, syncFilesToSandbox } from './sandbox/sync';
+import { checkModuleTransforms, HmrListener, viteErrorToBuildError } from './sandbox/hmr';
+import { SandboxLogStream } from './sandbox/logs';
+import { runTypeCheck } from './sandbox/typecheck';
+import { runLint } from './sandbox/lint';
+import {
+    applyDependencyPlan,
+    DependencyInstallResult,
+    DependencyPlan,
+    describeDependencyChanges,
+    getInstalledPackages,
+    getTemplateDependencies,
+    planDependencyChanges
+} from './sandbox/packages';
+import { getRegistryConfig } from './sandbox/registry';
+import { enforceDependencyPolicy, findInstallScriptViolations, getDependencyPolicy } from './sandbox/dependency-policy';
+import { runRuntimeCheck } from './sandbox/runtime-check';
+import { runAccessibilityCheck } from './sandbox/accessibility';
+import { ensureTestPackages, isTestFile } from './sandbox/tests';
+import { capturePreviewScreenshot } from './sandbox/screenshot';
+import { AppTemplate, getTemplate, TemplateId } from './templates';
+import { getLatestScreenshot, saveScreenshot, setLatestScreenshot } from './screenshots';
+
+// Every template serves its dev server on the same port, so sandboxes can be reached without knowing their template
+export const DEV_SERVER_PORT = getTemplate().port;
 
 interface SandboxResult {
     sbxId: string;
+    restored?: boolean;
     template: string;
+    templateId: TemplateId;
     url: string;
     allFiles: z.infer<typeof benchifyFileSchema>;
     buildErrors?: BuildError[];
     hasErrors: boolean;
+    // Only taken when the preview built without blocking errors
+    screenshot?: PreviewScreenshot;
+}
+
+function getTemplatePool(template: AppTemplate) {
+    return getSandboxPool(template.sandboxTemplate, template.port, template.workdir, template.devCommand);
+}
+
+/**
+ * Starts booting warm sandboxes for the default template (no-op unless SANDBOX_POOL_SIZE is set)
+ */
+export function warmSandboxPool() {
+    getTemplatePool(getTemplate()).refill();
 }
 
 export async function updateSandboxFiles({
     sandboxId,
     files,
-    progressTracker
+    operations = [],
+    progressTracker,
+    sessionId,
+    templateId
 }: {
     sandboxId: string;
     files: z.infer<typeof benchifyFileSchema>;
+    operations?: FileOperation[];
     progressTracker?: ProgressTracker | null;
+    // Session that owns the sandbox
+    sessionId: string;
+    templateId?: TemplateId;
 }): Promise<SandboxResult> {
     console.log(`Updating existing sandbox: ${sandboxId}`);
+    const template = getTemplate(templateId);
 
-    // Connect to existing running sandbox
-    const sandbox = await Sandbox.connect(sandboxId);
+    // Only the owning session may write to the sandbox
+    const sandbox = await getSessionSandbox(sandboxId, sessionId);
 
-    // Apply transformations (including Tailwind v4 syntax)
-    const transformedFiles = applyTransformations(files);
+    // Apply transformations (including Tailwind v4 syntax and the preview bridge in the template's index.html)
+    const { files: transformedFiles, dependencyPlan, policyErrors } = await mergePackageJson(
+        sandbox,
+        template,
+        applyTransformations(await withTemplateFiles(sandbox, template, files, ['index.html']))
+    );
 
-    // Write files directly to the working directory (/app), replacing existing ones
-    const filesToWrite = transformedFiles.map(file => ({
-        path: `/app/${file.path}`,
-        data: file.contents
-    }));
+    // Deleted and renamed-away files must disappear from the sandbox too
+    const removedPaths = getRemovedPaths(operations, files);
+    const previewUrl = sandbox.getUrl(sandbox.devServerPort);
 
+    // Subscribe to Vite's HMR channel before writing so no update event is missed
     progressTracker?.startStep('updating-files');
-    await sandbox.files.write(filesToWrite);
+    const hmrListener = await HmrListener.connect(previewUrl);
+
+    // Write only files that changed since the last sync to the working directory (/app)
+    let syncResult;
+    try {
+        syncResult = await syncFilesToSandbox(sandbox, template.workdir, transformedFiles, removedPaths);
+    } catch (error) {
+        hmrListener?.close();
+        throw error;
+    }
+    progressTracker?.updateStep('updating-files', {
+        description: `Updated ${syncResult.written.length} changed file(s), removed ${syncResult.removed.length}`
+    });
     progressTracker?.completeStep('updating-files');
 
-    // Check if package.json was updated and install any new dependencies
+    // Check if package.json was updated and apply added, re-versioned and removed dependencies
     progressTracker?.startStep('installing-deps');
-    const packageJsonFile = transformedFiles.find(file => file.path === 'package.json');
-    if (packageJsonFile) {
-        console.log('package.json updated, checking for new dependencies...');
+    const dependencyErrors = [...policyErrors];
+    if (dependencyPlan && syncResult.written.includes('package.json')) {
+        console.log('package.json updated, applying dependency changes...');
+        progressTracker?.updateStep('installing-deps', { description: describeDependencyChanges(dependencyPlan.changes) });
         try {
-            const newPackages = extractNewPackages(packageJsonFile.contents);
-
-            if (newPackages.length > 0) {
-                console.log('Installing new packages:', newPackages);
-                const installCmd = `cd /app && npm install ${newPackages.join(' ')} --no-save`;
-                const result = await sandbox.commands.run(installCmd);
-                console.log('New packages installed successfully:', result.stdout);
-            } else {
-                console.log('No new packages to install');
-            }
+            const { errors } = await installDependencyPlan(sandbox, template, dependencyPlan);
+            dependencyErrors.push(...errors);
         } catch (error) {
-            console.error('Failed to install new packages:', error);
+            console.error('Failed to apply dependency changes:', error);
+            dependencyErrors.push({
+                type: 'build',
+                message: `Failed to install dependencies: ${error instanceof Error ? error.message : String(error)}`
+            });
         }
+    } else {
+        progressTracker?.updateStep('installing-deps', { description: 'No dependency changes' });
     }
-    progressTracker?.completeStep('installing-deps');
+    await installTestPackages(sandbox, template, transformedFiles);
+    completeDependencyStep(dependencyErrors.filter(error => error.type === 'dependency'), progressTracker);
 
-    // Wait for hot reload to take effect
+    // Wait for Vite to apply the update (or report an error) for the files we wrote
     progressTracker?.startStep('hot-reloading');
     console.log('Waiting for hot reload to take effect...');
-    await new Promise(resolve => setTimeout(resolve, 1000)); // Brief wait for hot reload
-    progressTracker?.completeStep('hot-reloading');
+    const hmrResult = hmrListener
+        ? await hmrListener.waitForUpdate(syncResult.written)
+        : { applied: false, updatedPaths: [], errors: [] };
+    hmrListener?.close();
+
+    // Modules no browser has loaded yet never produce HMR events, so have Vite transform them directly
+    const transformErrors = hmrResult.errors.length > 0 ? [] : await checkModuleTransforms(sandbox, template.workdir, syncResult.written);
+    const buildErrors = dedupeBuildErrors([...hmrResult.errors, ...transformErrors].map(error => viteErrorToBuildError(error, template.workdir)));
+    buildErrors.unshift(...dependencyErrors);
+
+    if (buildErrors.length > 0) {
+        console.log('🔴 Vite reported errors for the update:', buildErrors);
+        progressTracker?.errorStep('hot-reloading', `Vite reported ${buildErrors.length} error(s) while applying the update`);
+    } else {
+        console.log(hmrResult.applied
+            ? `✅ Vite applied the update (${hmrResult.updatedPaths.length} module(s))`
+            : '✅ Changed modules compiled (no HMR client connected)');
+        progressTracker?.completeStep('hot-reloading');
+    }
 
     // Quick health check to ensure the updated app is working
     progressTracker?.startStep('verifying-update');
@@ -91,7 +159,7 @@ export async function updateSandboxFiles({
 
     for (let attempt = 1; attempt <= maxAttempts; attempt++) {
         try {
-            const healthCheck = await sandbox.commands.run('curl -s -o /dev/null -w "%{http_code}" http://localhost:5173', { timeoutMs: 3000 });
+            const healthCheck = await sandbox.runCommand(`curl -s -o /dev/null -w "%{http_code}" http://localhost:${sandbox.devServerPort}`, { timeoutMs: 3000 });
 
             if (healthCheck.stdout === '200') {
                 console.log(`✅ Updated app is ready after ${attempt * pollInterval}ms!`);
@@ -108,58 +176,165 @@ export async function updateSandboxFiles({
     }
     progressTracker?.completeStep('verifying-update');
 
-    // Get all files from the sandbox
+    buildErrors.push(...await runRuntimeCheckStage(sandbox, progressTracker));
+    buildErrors.push(...await runTypeCheckStage(sandbox, template, progressTracker));
+    buildErrors.push(...await runLintStage(sandbox, template, progressTracker));
+    buildErrors.push(...await runAccessibilityStage(sandbox, template, hasBlockingErrors(buildErrors), progressTracker));
+
+    // Get all files from the sandbox, reading back only what changed
     progressTracker?.startStep('finalizing-preview');
-    const allFiles = await fetchAllSandboxFiles(sandbox);
+    const allFiles = await fetchChangedSandboxFiles(sandbox, template.workdir, template.boilerplate);
+    const hasErrors = !isServerReady || hasBlockingErrors(buildErrors);
+    const screenshot = hasErrors ? undefined : await takeScreenshot(sandbox);
     progressTracker?.completeStep('finalizing-preview');
 
-    const previewUrl = `https://${sandbox.getHost(5173)}`;
-
     return {
         sbxId: sandbox.sandboxId,
-        template: 'vite-support',
+        template: template.sandboxTemplate,
+        templateId: template.id,
         url: previewUrl,
         allFiles: allFiles,
-        buildErrors: undefined, // Assume no build errors for hot reload updates
-        hasErrors: !isServerReady
+        buildErrors: buildErrors.length > 0 ? buildErrors : undefined,
+        hasErrors,
+        screenshot
     };
 }
 
-export async function createSandbox({ files, progressTracker }: {
+// Steps shown when an expired sandbox is recreated in the middle of an update
+const RESTORE_SANDBOX_STEPS = [
+    {
+        id: 'creating-sandbox',
+        label: 'Restoring Sandbox',
+        description: 'Your previous sandbox expired, recreating it from your latest files'
+    },
+    {
+        id: 'installing-deps',
+        label: 'Installing Dependencies',
+        description: 'Installing required packages and dependencies'
+    },
+    {
+        id: 'starting-server',
+        label: 'Starting Dev Server',
+        description: 'Starting development server and running health checks'
+    },
+    {
+        id: 'checking-runtime',
+        label: 'Checking Runtime',
+        description: 'Loading the app in a headless browser to catch runtime errors'
+    },
+    {
+        id: 'type-checking',
+        label: 'Type Checking',
+        description: 'Checking the project for TypeScript errors'
+    },
+    {
+        id: 'linting',
+        label: 'Linting',
+        description: 'Checking the code with ESLint'
+    },
+    {
+        id: 'checking-accessibility',
+        label: 'Checking Accessibility',
+        description: 'Auditing the rendered app with axe-core'
+    },
+    {
+        id: 'finalizing-preview',
+        label: 'Finalizing',
+        description: 'Your updated application is ready!'
+    }
+];
+
+/**
+ * Updates an existing sandbox, transparently recreating it from the given files if it has expired
+ * or this server no longer tracks it (e.g. after a restart). The replacement belongs to the session.
+ */
+export async function updateOrRestoreSandbox({
+    sandboxId,
+    files,
+    operations,
+    progressTracker,
+    sessionId,
+    templateId
+}: {
+    sandboxId: string;
     files: z.infer<typeof benchifyFileSchema>;
+    operations?: FileOperation[];
     progressTracker?: ProgressTracker | null;
+    // Session that owns the sandbox
+    sessionId: string;
+    templateId?: TemplateId;
 }): Promise<SandboxResult> {
-    // Create sandbox from the improved template
-    const sandbox = await Sandbox.create('vite-support', { apiKey: E2B_API_KEY });
-    console.log(`Sandbox created: ${sandbox.sandboxId}`);
+    try {
+        return await updateSandboxFiles({ sandboxId, files, operations, progressTracker, sessionId, templateId });
+    } catch (error) {
+        // A sandbox tracked for another session is never replaced
+        const untracked = error instanceof SandboxAccessError && !getSandboxOwner(sandboxId);
+        if (!(error instanceof SandboxExpiredError) && !untracked) {
+            throw error;
+        }
 
-    // Apply transformations (including Tailwind v4 syntax)
-    const transformedFiles = applyTransformations(files);
+        console.log(`♻️ Sandbox ${sandboxId} expired, restoring into a new sandbox`);
+        progressTracker?.replacePendingSteps(RESTORE_SANDBOX_STEPS);
+        progressTracker?.startStep('creating-sandbox');
+        const result = await createSandbox({ files, progressTracker, sessionId, templateId, isRestore: true });
+        // Keep comparing against the last version the user saw
+        const previousScreenshot = getLatestScreenshot(sandboxId);
+        if (previousScreenshot && !result.screenshot) {
+            setLatestScreenshot(result.sbxId, previousScreenshot);
+        }
+        return { ...result, restored: true };
+    }
+}
 
-    // Write files directly to the working directory (/app)
-    const filesToWrite = transformedFiles.map(file => ({
-        path: `/app/${file.path}`,
-        data: file.contents
-    }));
+export async function createSandbox({ files, progressTracker, sessionId, templateId, isRestore = false }: {
+    files: z.infer<typeof benchifyFileSchema>;
+    progressTracker?: ProgressTracker | null;
+    sessionId?: string;
+    templateId?: TemplateId;
+    isRestore?: boolean;
+}): Promise<SandboxResult> {
+    const template = getTemplate(templateId);
+
+    // Prefer a pre-warmed sandbox with the dev server already running, otherwise cold start from the template
+    const warmSandbox = getTemplatePool(template).claim();
+    const sandbox = warmSandbox ?? await getSandboxProvider().create(template.sandboxTemplate, { port: template.port, workdir: template.workdir });
+    if (warmSandbox && !isRestore) {
+        progressTracker?.updateStep('creating-sandbox', {
+            label: 'Claimed Warm Sandbox',
+            description: 'Using a pre-booted development environment'
+        });
+    }
+    if (warmSandbox) {
+        progressTracker?.updateStep('starting-server', {
+            description: 'Dev server already running, running health checks'
+        });
+    }
+    console.log(`Sandbox ${warmSandbox ? 'claimed' : 'created'}: ${sandbox.sandboxId}`);
+    await registerSandbox(sandbox, sessionId);
 
-    await sandbox.files.write(filesToWrite);
+    // Apply transformations (including Tailwind v4 syntax and the preview bridge in the template's index.html)
+    const { files: transformedFiles, dependencyPlan, policyErrors } = await mergePackageJson(
+        sandbox,
+        template,
+        applyTransformations(await withTemplateFiles(sandbox, template, files, ['index.html']))
+    );
+
+    // Write files directly to the working directory (/app)
+    await syncFilesToSandbox(sandbox, template.workdir, transformedFiles);
     progressTracker?.completeStep('creating-sandbox');
 
-    const buildErrors: BuildError[] = [];
+    const buildErrors: BuildError[] = [...policyErrors];
 
-    // Check if package.json was written and install only new dependencies
+    // Check if package.json was written and install only dependencies the template doesn't satisfy
     progressTracker?.startStep('installing-deps');
-    const packageJsonFile = transformedFiles.find(file => file.path === 'package.json');
-    if (packageJsonFile) {
-        console.log('package.json detected, checking for new dependencies...');
+    if (dependencyPlan) {
+        console.log('package.json detected, applying dependency changes...');
+        progressTracker?.updateStep('installing-deps', { description: describeDependencyChanges(dependencyPlan.changes) });
         try {
-            const newPackages = extractNewPackages(packageJsonFile.contents);
-
-            if (newPackages.length > 0) {
-                console.log('Installing new packages:', newPackages);
-                const installCmd = `cd /app && npm install ${newPackages.join(' ')} --no-save`;
-                const result = await sandbox.commands.run(installCmd);
-                console.log('New packages installed successfully:', result.stdout);
+            const { result, errors } = await installDependencyPlan(sandbox, template, dependencyPlan);
+            buildErrors.push(...errors);
+            if (result.installed.length > 0 || result.uninstalled.length > 0) {
+                console.log('Dependency changes applied:', result);
                 if (result.stderr) {
                     console.warn('npm install warnings:', result.stderr);
                     // Only treat critical npm errors as build errors (not warnings or peer dep issues)
@@ -174,24 +349,32 @@ export async function createSandbox({ files, progressTracker }: {
                     }
                 }
             } else {
-                console.log('No new packages to install');
+                console.log('Requested dependencies are already installed');
             }
         } catch (error) {
-            console.error('Failed to install new packages:', error);
+            console.error('Failed to apply dependency changes:', error);
             buildErrors.push({
                 type: 'build',
                 message: `Failed to install dependencies: ${error instanceof Error ? error.message : String(error)}`
             });
         }
     }
-    progressTracker?.completeStep('installing-deps');
+    await installTestPackages(sandbox, template, transformedFiles);
+    completeDependencyStep(buildErrors.filter(error => error.type === 'dependency'), progressTracker);
 
     // Start the dev server and check logs for errors (let Vite handle error detection)
     progressTracker?.startStep('starting-server');
     try {
-        console.log('Starting dev server...');
-        // Start dev server in background
-        const devServerResult = await sandbox.commands.run('cd /app && npm run dev', { background: true });
+        // Start dev server in background (warm sandboxes already have it running)
+        console.log(warmSandbox ? 'Dev server already running in warm sandbox' : 'Starting dev server...');
+        const devServerResult = warmSandbox
+            ? { stdout: '', stderr: '', exitCode: 0 }
+            : await sandbox.runCommand(template.devCommand(sandbox.devServerPort), {
+                cwd: template.workdir,
+                background: true,
+                timeoutMs: 0, // Keep streaming dev server output for as long as it runs
+                ...SandboxLogStream.capture(sandbox.sandboxId, 'dev-server')
+            });
 
         console.log('=== DEV SERVER INITIAL RESULT ===');
         console.log('Exit code:', devServerResult.exitCode);
@@ -209,7 +392,7 @@ export async function createSandbox({ files, progressTracker }: {
         console.log('=== CHECKING IF DEV SERVER IS ACTUALLY RUNNING ===');
         for (let attempt = 1; attempt <= maxAttempts; attempt++) {
             try {
-                const healthCheck = await sandbox.commands.run('curl -s -o /dev/null -w "%{http_code}" http://localhost:5173', { timeoutMs: 3000 });
+                const healthCheck = await sandbox.runCommand(`curl -s -o /dev/null -w "%{http_code}" http://localhost:${sandbox.devServerPort}`, { timeoutMs: 3000 });
                 console.log(`Health check attempt ${attempt}/${maxAttempts}:`, healthCheck.stdout);
 
                 if (healthCheck.stdout === '200') {
@@ -234,7 +417,7 @@ export async function createSandbox({ files, progressTracker }: {
         // Check what processes are running
         console.log('=== CHECKING RUNNING PROCESSES ===');
         try {
-            const processCheck = await sandbox.commands.run('ps aux | grep -E "(vite|node)" | grep -v grep');
+            const processCheck = await sandbox.runCommand('ps aux | grep -E "(vite|node)" | grep -v grep');
             console.log('Running processes:', processCheck.stdout);
         } catch (processError) {
             console.log('Process check failed:', processError);
@@ -243,7 +426,7 @@ export async function createSandbox({ files, progressTracker }: {
         // Check if there are any recent logs
         console.log('=== CHECKING FOR RECENT COMMAND OUTPUT ===');
         try {
-            const recentLogs = await sandbox.commands.run('cd /app && timeout 2s npm run dev 2>&1 || true');
+            const recentLogs = await sandbox.runCommand('timeout 2s npm run dev 2>&1 || true', { cwd: template.workdir });
             console.log('Recent dev server attempt:', recentLogs.stdout);
             console.log('Recent dev server stderr:', recentLogs.stderr);
         } catch (logError) {
@@ -262,41 +445,7 @@ export async function createSandbox({ files, progressTracker }: {
         // Check if the errors are just permission issues that don't prevent the server from working
         const isPermissionError = devServerResult.stderr &&
             devServerResult.stderr.includes('EACCES: permission denied') &&
-            devServerResult.stderr.includes('/app/node_modules/.vite-temp/');
-
-        // Check for actual compilation/build errors in the recent logs
-        let hasCompilationError = false;
-        let compilationErrorOutput = '';
-
-        console.log('=== COMPILATION ERROR CHECK ===');
-
-        // Simplified approach - just try one quick check
-        try {
-            console.log('Trying quick build check...');
-            const buildCheck = await sandbox.commands.run('cd /app && timeout 5s npm run build 2>&1 || true');
-            console.log('Build check output:', buildCheck.stdout?.substring(0, 500));
-
-            if (buildCheck.stdout && (
-                buildCheck.stdout.includes('Unterminated string constant') ||
-                buildCheck.stdout.includes('Unterminated string literal') ||
-                buildCheck.stdout.includes('SyntaxError') ||
-                buildCheck.stdout.includes('Unexpected token') ||
-                buildCheck.stdout.includes('error TS') ||
-                buildCheck.stdout.includes('[plugin:vite:') ||
-                buildCheck.stdout.includes('Parse error') ||
-                buildCheck.stdout.includes('Parsing error')
-            )) {
-                hasCompilationError = true;
-                compilationErrorOutput = buildCheck.stdout;
-                console.log('✅ Found compilation error in build output');
-            }
-        } catch (buildError) {
-            console.log('Build check failed:', buildError);
-        }
-
-        console.log('=== COMPILATION ERROR CHECK SUMMARY ===');
-        console.log('Has compilation error:', hasCompilationError);
-        console.log('Compilation error output length:', compilationErrorOutput.length);
+            devServerResult.stderr.includes('/node_modules/.vite-temp/');
 
         console.log('Dev server started, output checked');
         console.log('Total build errors found:', buildErrors.length);
@@ -305,41 +454,22 @@ export async function createSandbox({ files, progressTracker }: {
         console.log('Has stderr:', hasStderr);
         console.log('Has error in stdout:', hasErrorInStdout);
         console.log('Is permission error:', isPermissionError);
-        console.log('Has compilation error:', hasCompilationError);
 
-        if (hasCompilationError || ((hasStderr || hasErrorInStdout) && !isPermissionError)) {
+        if ((hasStderr || hasErrorInStdout) && !isPermissionError) {
             console.log('🔴 REAL ERRORS DETECTED IN DEV SERVER OUTPUT');
 
-            // Get the actual error output for display
-            let errorOutput = '';
-
-            if (hasCompilationError) {
-                // Use the compilation error output we found
-                errorOutput = compilationErrorOutput;
-                console.log('Using compilation error output for display');
-            } else {
-                // Use the original stderr/stdout
-                errorOutput = [devServerResult.stderr, devServerResult.stdout]
-                    .filter(Boolean)
-                    .join('\n')
-                    .trim();
-                console.log('Using dev server stderr/stdout for display');
-            }
+            // Type errors are reported by the type-check stage, so show the raw dev server output
+            const errorOutput = [devServerResult.stderr, devServerResult.stdout]
+                .filter(Boolean)
+                .join('\n')
+                .trim();
 
             if (errorOutput) {
                 console.log('Adding build error with message length:', errorOutput.length);
-
-                // Parse TypeScript errors for better display
-                const parsedErrors = parseTypeScriptErrors(errorOutput);
-                if (parsedErrors.length > 0) {
-                    buildErrors.push(...parsedErrors);
-                } else {
-                    // Fallback to raw error output
-                    buildErrors.push({
-                        type: 'build',
-                        message: errorOutput
-                    });
-                }
+                buildErrors.push({
+                    type: 'build',
+                    message: errorOutput
+                });
             }
         } else if (isPermissionError) {
             console.log('⚠️  Permission errors detected but likely non-critical (E2B sandbox issue)');
@@ -355,81 +485,325 @@ export async function createSandbox({ files, progressTracker }: {
     }
     progressTracker?.completeStep('starting-server');
 
+    buildErrors.push(...await runRuntimeCheckStage(sandbox, progressTracker));
+    buildErrors.push(...await runTypeCheckStage(sandbox, template, progressTracker));
+    buildErrors.push(...await runLintStage(sandbox, template, progressTracker));
+    buildErrors.push(...await runAccessibilityStage(sandbox, template, hasBlockingErrors(buildErrors), progressTracker));
+
     // Get all files from the sandbox using the improved filter logic
     progressTracker?.startStep('finalizing-preview');
-    const allFiles = await fetchAllSandboxFiles(sandbox);
+    const allFiles = await fetchChangedSandboxFiles(sandbox, template.workdir, template.boilerplate);
+    const hasErrors = hasBlockingErrors(buildErrors);
+    const screenshot = hasErrors ? undefined : await takeScreenshot(sandbox);
 
-    const previewUrl = `https://${sandbox.getHost(5173)}`;
+    const previewUrl = sandbox.getUrl(sandbox.devServerPort);
 
     return {
         sbxId: sandbox.sandboxId,
-        template: 'vite-support',
+        template: template.sandboxTemplate,
+        templateId: template.id,
         url: previewUrl,
         allFiles: allFiles,
         buildErrors: buildErrors.length > 0 ? buildErrors : undefined,
-        hasErrors: buildErrors.length > 0
+        hasErrors,
+        screenshot
     };
 }
 
-function parseTypeScriptErrors(output: string): BuildError[] {
-    const errors: BuildError[] = [];
-
-    // Match TypeScript error format: file(line,col): error TSxxxx: message
-    const tsErrorRegex = /([^(]+)\((\d+),(\d+)\): error (TS\d+): (.+)/g;
-
-    let match;
-    while ((match = tsErrorRegex.exec(output)) !== null) {
-        const [, file, line, col, errorCode, message] = match;
-        errors.push({
-            type: 'typescript',
-            message: `${errorCode}: ${message}`,
-            file: file.trim(),
-            line: parseInt(line, 10),
-            column: parseInt(col, 10)
-        });
+/**
+ * Captures and stores a screenshot of the preview. A missing browser or a failed capture
+ * never fails the generation, it just leaves the version without a thumbnail.
+ */
+async function takeScreenshot(sandbox: SandboxHandle): Promise<PreviewScreenshot | undefined> {
+    try {
+        const png = await capturePreviewScreenshot(sandbox);
+        if (!png) return undefined;
+
+        const screenshot = await saveScreenshot(png);
+        setLatestScreenshot(sandbox.sandboxId, screenshot);
+        console.log(`📸 Captured preview screenshot ${screenshot.id}`);
+        return screenshot;
+    } catch (error) {
+        console.error('Screenshot capture failed:', error);
+        return undefined;
     }
+}
 
-    // If no specific TypeScript errors found, try to extract any line that looks like an error
-    if (errors.length === 0) {
-        const lines = output.split('\n');
-        for (const line of lines) {
-            if (line.includes('error') || line.includes('Error')) {
-                errors.push({
-                    type: 'build',
-                    message: line.trim()
-                });
-            }
+/**
+ * Loads the preview in a headless browser as its own progress step and returns the runtime errors it saw
+ */
+async function runRuntimeCheckStage(sandbox: SandboxHandle, progressTracker?: ProgressTracker | null): Promise<BuildError[]> {
+    progressTracker?.startStep('checking-runtime');
+    try {
+        const result = await runRuntimeCheck(sandbox);
+        if (!result.available) {
+            progressTracker?.updateStep('checking-runtime', {
+                description: result.mode === 'off' ? 'Runtime checks are disabled' : 'No headless browser available in this sandbox'
+            });
+            progressTracker?.completeStep('checking-runtime');
+            return [];
+        }
+
+        const errorCount = result.errors.filter(error => error.severity === 'error').length;
+        console.log(`🌐 Runtime check finished in ${result.durationMs}ms: ${result.errors.length} problem(s)`);
+
+        if (errorCount > 0) {
+            progressTracker?.errorStep('checking-runtime', `The app threw ${errorCount} uncaught error(s) while rendering`);
+        } else {
+            progressTracker?.updateStep('checking-runtime', {
+                description: result.errors.length > 0
+                    ? `Rendered with ${result.errors.length} warning(s)`
+                    : 'Rendered without runtime errors'
+            });
+            progressTracker?.completeStep('checking-runtime');
+        }
+        // React reports render errors more than once in development
+        return dedupeBuildErrors(result.errors);
+    } catch (error) {
+        console.error('Runtime check failed to run:', error);
+        progressTracker?.updateStep('checking-runtime', { description: 'Runtime check could not be run' });
+        progressTracker?.completeStep('checking-runtime');
+        return [];
+    }
+}
+
+/**
+ * Runs the TypeScript type-check stage as its own progress step and returns its diagnostics
+ */
+async function runTypeCheckStage(
+    sandbox: SandboxHandle,
+    template: AppTemplate,
+    progressTracker?: ProgressTracker | null
+): Promise<BuildError[]> {
+    progressTracker?.startStep('type-checking');
+    if (!template.typecheckCommand) {
+        progressTracker?.updateStep('type-checking', { description: `Type checking is not available for ${template.label} projects` });
+        progressTracker?.completeStep('type-checking');
+        return [];
+    }
+
+    try {
+        const result = await runTypeCheck(sandbox, template.workdir, template.typecheckCommand);
+        if (result.mode === 'off') {
+            progressTracker?.updateStep('type-checking', { description: 'Type checking is disabled' });
+            progressTracker?.completeStep('type-checking');
+            return [];
         }
+
+        const errorCount = result.diagnostics.filter(diagnostic => diagnostic.severity === 'error').length;
+        const warningCount = result.diagnostics.length - errorCount;
+        console.log(`🔎 Type check finished in ${result.durationMs}ms: ${errorCount} error(s), ${warningCount} warning(s)`);
+
+        if (result.hasBlockingErrors) {
+            progressTracker?.errorStep('type-checking', `Found ${errorCount} TypeScript error(s)`);
+        } else {
+            progressTracker?.updateStep('type-checking', {
+                description: warningCount > 0
+                    ? `No blocking type errors (${warningCount} warning(s))`
+                    : 'No type errors found'
+            });
+            progressTracker?.completeStep('type-checking');
+        }
+        return result.diagnostics;
+    } catch (error) {
+        // A broken type-check run should not hide an otherwise working preview
+        console.error('Type check failed to run:', error);
+        progressTracker?.updateStep('type-checking', { description: 'Type check could not be run' });
+        progressTracker?.completeStep('type-checking');
+        return [];
+    }
+}
+
+/**
+ * Runs the ESLint stage as its own progress step and returns its findings as warnings
+ */
+async function runLintStage(sandbox: SandboxHandle, template: AppTemplate, progressTracker?: ProgressTracker | null): Promise<BuildError[]> {
+    progressTracker?.startStep('linting');
+    try {
+        const result = await runLint(sandbox, template.workdir);
+        if (!result.available) {
+            progressTracker?.updateStep('linting', {
+                description: result.mode === 'off' ? 'Linting is disabled' : 'ESLint is not installed in this template'
+            });
+            progressTracker?.completeStep('linting');
+            return [];
+        }
+
+        const total = result.findings.length + result.truncated;
+        console.log(`🧹 Lint finished in ${result.durationMs}ms: ${total} finding(s)`);
+        progressTracker?.updateStep('linting', {
+            description: total > 0 ? `Found ${total} lint warning(s)` : 'No lint issues found'
+        });
+        progressTracker?.completeStep('linting');
+        return result.findings;
+    } catch (error) {
+        // A broken ESLint config just skips the stage
+        console.error('Lint failed to run:', error);
+        progressTracker?.updateStep('linting', { description: 'Lint could not be run' });
+        progressTracker?.completeStep('linting');
+        return [];
     }
+}
 
-    return errors;
+/**
+ * Replaces a generated package.json with the sandbox's current one plus the requested dependency
+ * changes, so scripts and template dependencies survive a package.json that lists only extra packages.
+ * The dependency policy is enforced here, before anything is written or installed.
+ */
+async function mergePackageJson(
+    sandbox: SandboxHandle,
+    template: AppTemplate,
+    files: z.infer<typeof benchifyFileSchema>
+): Promise<{ files: z.infer<typeof benchifyFileSchema>; dependencyPlan?: DependencyPlan; policyErrors: BuildError[] }> {
+    const packageJsonFile = files.find(file => file.path === 'package.json');
+    if (!packageJsonFile) return { files, policyErrors: [] };
+
+    let current: string | undefined;
+    try {
+        current = await sandbox.readFile(`${template.workdir}/package.json`);
+    } catch {
+        // No package.json yet, the requested one is used as is
+    }
+
+    const templateNames = await getTemplateDependencies(sandbox, template.workdir);
+    const { plan: dependencyPlan, violations } = enforceDependencyPolicy(
+        planDependencyChanges(current, packageJsonFile.contents, templateNames),
+        templateNames,
+        await getInstalledPackages(sandbox, template.workdir)
+    );
+    return {
+        files: files.map(file => file === packageJsonFile ? { ...file, contents: dependencyPlan.packageJson } : file),
+        dependencyPlan,
+        policyErrors: violations
+    };
+}
+
+/**
+ * Applies a dependency plan through the template's registry mirror or cache (if any), running
+ * install scripts only if the dependency policy allows them
+ */
+async function installDependencyPlan(
+    sandbox: SandboxHandle,
+    template: AppTemplate,
+    plan: DependencyPlan
+): Promise<{ result: DependencyInstallResult; errors: BuildError[] }> {
+    const { blockInstallScripts } = getDependencyPolicy();
+    const result = await applyDependencyPlan(sandbox, template.workdir, plan, {
+        ignoreScripts: blockInstallScripts,
+        registry: getRegistryConfig(template.id)
+    });
+
+    // Installed specs are name@range
+    const installedNames = result.installed.map(spec => spec.slice(0, spec.lastIndexOf('@')));
+    const errors = blockInstallScripts
+        ? await findInstallScriptViolations(sandbox, template.workdir, installedNames)
+        : [];
+    return { result, errors };
 }
 
-function extractNewPackages(packageJsonContent: string): string[] {
+async function runAccessibilityStage(
+    sandbox: SandboxHandle,
+    template: AppTemplate,
+    skip: boolean,
+    progressTracker?: ProgressTracker | null
+): Promise<BuildError[]> {
+    progressTracker?.startStep('checking-accessibility');
+    // An app that failed to build or render would only produce noise
+    if (skip) {
+        progressTracker?.updateStep('checking-accessibility', { description: 'Skipped until the errors are fixed' });
+        progressTracker?.completeStep('checking-accessibility');
+        return [];
+    }
+
     try {
-        const packageJson = JSON.parse(packageJsonContent);
-        const dependencies = packageJson.dependencies || {};
-
-        // Base packages that are already installed in the template
-        const basePackages = [
-            'react',
-            'react-dom',
-            '@vitejs/plugin-react',
-            'tailwindcss',
-            '@tailwindcss/vite',
-            'typescript',
-            'vite'
-        ];
-
-        // Find packages that aren't in our base template
-        const newPackages = Object.entries(dependencies)
-            .filter(([pkg]) => !basePackages.includes(pkg))
-            .map(([pkg, version]) => `${pkg}@${version}`);
-
-        return newPackages;
+        const result = await runAccessibilityCheck(sandbox, template.workdir);
+        if (!result.available) {
+            progressTracker?.updateStep('checking-accessibility', {
+                description: result.mode === 'off' ? 'Accessibility checks are disabled' : 'No headless browser available in this sandbox'
+            });
+            progressTracker?.completeStep('checking-accessibility');
+            return [];
+        }
+
+        const total = result.violations.length + result.truncated;
+        console.log(`♿ Accessibility check finished in ${result.durationMs}ms: ${total} violation(s)`);
+        progressTracker?.updateStep('checking-accessibility', {
+            description: total > 0 ? `Found ${total} accessibility issue(s)` : 'No accessibility issues found'
+        });
+        progressTracker?.completeStep('checking-accessibility');
+        return result.violations;
     } catch (error) {
-        console.error('Error parsing package.json:', error);
+        console.error('Accessibility check failed to run:', error);
+        progressTracker?.updateStep('checking-accessibility', { description: 'Accessibility check could not be run' });
+        progressTracker?.completeStep('checking-accessibility');
         return [];
     }
 }
 
+/**
+ * Installs Vitest and Testing Library when the project has test files, so the type-check can
+ * resolve their imports (e.g. after a restore into a fresh sandbox). Failures only cost the tests.
+ */
+async function installTestPackages(sandbox: SandboxHandle, template: AppTemplate, files: z.infer<typeof benchifyFileSchema>) {
+    if (!files.some(file => isTestFile(file.path))) return;
+    try {
+        await ensureTestPackages(sandbox, template);
+    } catch (error) {
+        console.error('Failed to install test packages:', error);
+    }
+}
+
+function completeDependencyStep(dependencyErrors: BuildError[], progressTracker?: ProgressTracker | null) {
+    if (dependencyErrors.length > 0) {
+        progressTracker?.errorStep('installing-deps', `${dependencyErrors.length} dependency policy violation(s)`);
+    } else {
+        progressTracker?.completeStep('installing-deps');
+    }
+}
+
+/**
+ * Adds template files the generated code does not include, so transformations can patch them
+ */
+async function withTemplateFiles(
+    sandbox: SandboxHandle,
+    template: AppTemplate,
+    files: z.infer<typeof benchifyFileSchema>,
+    paths: string[]
+): Promise<z.infer<typeof benchifyFileSchema>> {
+    const missing = paths.filter(path => !files.some(file => file.path === path));
+    const templateFiles = await Promise.all(missing.map(async path => {
+        try {
+            return { path, contents: await sandbox.readFile(`${template.workdir}/${path}`) };
+        } catch {
+            return null;
+        }
+    }));
+
+    return [...files, ...templateFiles.filter(file => file !== null)];
+}
+
+function hasBlockingErrors(errors: BuildError[]): boolean {
+    return errors.some(error => error.severity !== 'warning');
+}
+
+function dedupeBuildErrors(errors: BuildError[]): BuildError[] {
+    const seen = new Set<string>();
+    return errors.filter(error => {
+        const key = `${error.file}:${error.line}:${error.message}`;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+    });
+}
+
+/**
+ * Paths that delete/rename operations removed and that no longer exist in the project
+ */
+function getRemovedPaths(operations: FileOperation[], files: z.infer<typeof benchifyFileSchema>): string[] {
+    const remainingPaths = new Set(files.map(file => file.path));
+
+    return operations
+        .filter(operation => operation.operation === 'delete' || operation.operation === 'rename')
+        .map(operation => operation.path)
+        .filter(path => !remainingPaths.has(path));
+}
@@ -1,10 +1,4 @@
-interface BuildError {
-    type: 'typescript' | 'build' | 'runtime';
-    message: string;
-    file?: string;
-    line?: number;
-    column?: number;
-}
+import { BuildError } from './types';
 
 export interface ErrorDetectionResult {
     hasErrors: boolean;
@@ -30,9 +24,9 @@ export function detectCodeErrors(output: string): ErrorDetectionResult {
 
     // Check for infrastructure errors that should be ignored
     const isInfrastructureError = output.includes('EACCES: permission denied') ||
-        output.includes('failed to load config from /app/vite.config.ts') ||
+        output.includes('failed to load config from') ||
         output.includes('error when starting dev server') ||
-        output.includes('/app/node_modules/.vite-temp/');
+        output.includes('/node_modules/.vite-temp/');
 
     console.log('Error pattern checks (focusing on code errors):');
     console.log('- Has "SyntaxError":', hasSyntaxError);
@@ -74,30 +68,26 @@ export function detectCodeErrors(output: string): ErrorDetectionResult {
 }
 
 /**
- * Parses TypeScript compilation errors
+ * Parses `tsc --pretty false` output (file(line,column): error TSxxxx: message) into BuildErrors.
+ * Indented continuation lines are appended to the message of the diagnostic above them.
  */
-export function parseTypeScriptErrors(stderr: string): BuildError[] {
+export function parseTypeScriptErrors(output: string): BuildError[] {
     const errors: BuildError[] = [];
-    const lines = stderr.split('\n');
 
-    for (const line of lines) {
-        // Match TypeScript error pattern: file(line,column): error TS####: message
-        const match = line.match(/(.+)\((\d+),(\d+)\): error TS\d+: (.+)/);
+    for (const line of output.split('\n')) {
+        const match = line.match(/^(.+?)\((\d+),(\d+)\): error (TS\d+): (.+)$/);
         if (match) {
-            const [, file, line, column, message] = match;
-            // Filter out common non-critical errors that might be false positives
-            const lowerMessage = message.toLowerCase();
-            if (!lowerMessage.includes('deprecated') &&
-                !lowerMessage.includes('unused') &&
-                !lowerMessage.includes('implicit any')) {
-                errors.push({
-                    type: 'typescript',
-                    message: message.trim(),
-                    file: file.replace('/app/', ''),
-                    line: parseInt(line),
-                    column: parseInt(column)
-                });
-            }
+            const [, file, lineNumber, column, code, message] = match;
+            errors.push({
+                type: 'typescript',
+                message: message.trim(),
+                file: file.trim().replace(/^\/app\//, ''),
+                line: parseInt(lineNumber, 10),
+                column: parseInt(column, 10),
+                code
+            });
+        } else if (/^\s+\S/.test(line) && errors.length > 0) {
+            errors[errors.length - 1].message += `\n${line.trim()}`;
         }
     }
 
@@ -131,7 +121,7 @@ function parseErrorsFromOutput(output: string): BuildError[] {
         const isInfrastructureError = line.includes('EACCES: permission denied') ||
             line.includes('failed to load config') ||
             line.includes('error when starting dev server') ||
-            line.includes('/app/node_modules/.vite-temp/');
+            line.includes('/node_modules/.vite-temp/');
 
         console.log(`  - Has code error: ${hasCodeError}`);
         console.log(`  - Is infrastructure error (skip): ${isInfrastructureError}`);
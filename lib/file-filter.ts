@@ -1,26 +1,41 @@
-import { Sandbox } from '@e2b/code-interpreter';
 import { z } from 'zod';
 import { benchifyFileSchema } from './schemas';
+import { removePreviewBridgeTag } from './preview-bridge';
+import { SandboxHandle } from './sandbox';
 
 export type FileEntry = {
     path: string;
     contents: string;
 };
 
+// Template-specific boilerplate, on top of the lists below
+export interface BoilerplateFilter {
+    files: string[];
+    paths: string[];
+    // Placeholder root component the template ships, dropped while it is untouched
+    defaultAppFile: string;
+}
+
+// Text the placeholder root component of every template renders
+const DEFAULT_APP_MARKER = 'Your App';
+
 // List of boilerplate files to filter out from results
 export const BOILERPLATE_FILES = [
     'README.md',
     'eslint.config.js',
     'package-lock.json',
+    // Injected by the preview instrumentation bridge
+    'public/__preview-bridge.js',
 ];
 
 // Paths that should be filtered
 export const BOILERPLATE_PATHS = [
     'node_modules',
     'public/vite.svg',
-    'src/assets/react.svg',
     '.vscode',
-    '.git'
+    '.git',
+    // Production build output
+    'dist/'
 ];
 
 // Essential files that should always be included
@@ -35,14 +50,62 @@ export const ESSENTIAL_FILES = [
     'index.html'
 ];
 
+const BINARY_EXTENSIONS = ['.jpg', '.png', '.gif', '.ico', '.woff', '.woff2'];
+
+/**
+ * Checks whether a path (relative to the project directory) should be left out of the project files
+ */
+export function isFilteredPath(normalizedPath: string, boilerplate?: BoilerplateFilter): boolean {
+    // Skip node_modules and hidden files
+    const segments = normalizedPath.split('/');
+    if (segments.some(segment => segment === 'node_modules' || segment.startsWith('.'))) {
+        return true;
+    }
+
+    // Skip files that are in the boilerplate list
+    if (BOILERPLATE_FILES.includes(normalizedPath) || boilerplate?.files.includes(normalizedPath)) {
+        return true;
+    }
+
+    // Skip files that match boilerplate paths
+    return [...BOILERPLATE_PATHS, ...(boilerplate?.paths ?? [])]
+        .some(boilerplatePath => normalizedPath.startsWith(boilerplatePath));
+}
+
+/**
+ * Checks whether a file is binary and should not be read as text
+ */
+export function isBinaryFile(name: string): boolean {
+    return BINARY_EXTENSIONS.some(extension => name.endsWith(extension));
+}
+
+/**
+ * Checks whether a file is the untouched placeholder App from the template
+ */
+export function isDefaultAppFile(normalizedPath: string, contents: string, boilerplate?: BoilerplateFilter): boolean {
+    return normalizedPath === (boilerplate?.defaultAppFile ?? 'src/App.tsx') && contents.includes(DEFAULT_APP_MARKER);
+}
+
+/**
+ * Returns a file read back from the sandbox without the preview bridge tag, which
+ * must not show up in the code view or in downloaded projects
+ */
+export function toProjectContents(normalizedPath: string, contents: string): string {
+    return normalizedPath === 'index.html' ? removePreviewBridgeTag(contents) : contents;
+}
+
 /**
  * Recursively fetches all files from the sandbox and returns them in benchifyFileSchema format
  */
-export async function fetchAllSandboxFiles(sandbox: Sandbox): Promise<z.infer<typeof benchifyFileSchema>> {
+export async function fetchAllSandboxFiles(
+    sandbox: SandboxHandle,
+    workdir: string,
+    boilerplate?: BoilerplateFilter
+): Promise<z.infer<typeof benchifyFileSchema>> {
     const result: FileEntry[] = [];
 
-    // Start the recursive traversal from /app
-    await listFilesRecursively(sandbox, '/app', result);
+    // Start the recursive traversal from the project directory
+    await listFilesRecursively(sandbox, workdir, workdir, result, boilerplate);
 
     return result;
 }
@@ -51,72 +114,48 @@ export async function fetchAllSandboxFiles(sandbox: Sandbox): Promise<z.infer<ty
  * Recursively lists files in a directory and reads their content
  */
 async function listFilesRecursively(
-    sandbox: Sandbox,
+    sandbox: SandboxHandle,
+    workdir: string,
     dirPath: string,
-    result: FileEntry[]
+    result: FileEntry[],
+    boilerplate?: BoilerplateFilter
 ): Promise<void> {
     try {
         // List all files and directories in the current path
-        const items = await sandbox.files.list(dirPath);
+        const items = await sandbox.listFiles(dirPath);
 
         // Process each item
         for (const item of items) {
-            // Get normalized path for filtering (without /app/ prefix)
-            const normalizedPath = item.path.replace('/app/', '');
+            // Get normalized path for filtering (without the project directory prefix)
+            const normalizedPath = item.path.replace(`${workdir}/`, '');
             const fullPath = item.path;
 
-            // Skip node_modules and hidden files
-            if (item.name === 'node_modules' || item.name.startsWith('.')) {
-                continue;
-            }
-
-            // Skip files that are in the boilerplate list
-            if (BOILERPLATE_FILES.includes(normalizedPath)) {
-                continue;
-            }
-
-            // Skip files that match boilerplate paths
-            let shouldSkip = false;
-            for (const boilerplatePath of BOILERPLATE_PATHS) {
-                if (normalizedPath.startsWith(boilerplatePath)) {
-                    shouldSkip = true;
-                    break;
-                }
-            }
-            if (shouldSkip) {
+            if (isFilteredPath(normalizedPath, boilerplate)) {
                 continue;
             }
 
             if (item.type === 'dir') {
                 // Recursively process directories
-                await listFilesRecursively(sandbox, fullPath, result);
+                await listFilesRecursively(sandbox, workdir, fullPath, result, boilerplate);
             } else {
                 try {
                     // Skip binary files
-                    if (
-                        item.name.endsWith('.jpg') ||
-                        item.name.endsWith('.png') ||
-                        item.name.endsWith('.gif') ||
-                        item.name.endsWith('.ico') ||
-                        item.name.endsWith('.woff') ||
-                        item.name.endsWith('.woff2')
-                    ) {
+                    if (isBinaryFile(item.name)) {
                         continue;
                     }
 
                     // Read the file content
-                    const content = await sandbox.files.read(fullPath);
-                    const contentStr = content.toString();
+                    const contentStr = await sandbox.readFile(fullPath);
 
-                    // Skip Vite default App
-                    if (normalizedPath === 'src/App.tsx' && contentStr.includes('Your App')) {
+                    // Skip the template's placeholder App
+                    if (isDefaultAppFile(normalizedPath, contentStr, boilerplate)) {
                         continue;
                     }
 
                     // Add file to result array with normalized path
                     result.push({
                         path: normalizedPath,
-                        contents: contentStr
+                        contents: toProjectContents(normalizedPath, contentStr)
                     });
 
                 } catch (error) {
@@ -127,4 +166,4 @@ async function listFilesRecursively(
     } catch (error) {
         console.error(`Error listing directory ${dirPath}:`, error);
     }
-} 
\ No newline at end of file
+}
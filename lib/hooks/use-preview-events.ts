@@ -0,0 +1,56 @@
+import { RefObject, useCallback, useEffect, useState } from 'react';
+import { isPreviewBridgeMessage } from '@/lib/preview-bridge';
+import { PreviewEventStore, StoredPreviewEvent } from '@/lib/preview-events';
+
+interface UsePreviewEventsReturn {
+    events: StoredPreviewEvent[];
+    clear: () => void;
+}
+
+/**
+ * Subscribes to the preview events stored for a session
+ */
+export function usePreviewEvents(sessionId: string | undefined): UsePreviewEventsReturn {
+    const [events, setEvents] = useState<StoredPreviewEvent[]>([]);
+
+    useEffect(() => {
+        if (!sessionId) {
+            setEvents([]);
+            return;
+        }
+        return PreviewEventStore.subscribe(sessionId, setEvents);
+    }, [sessionId]);
+
+    const clear = useCallback(() => {
+        if (sessionId) {
+            PreviewEventStore.clear(sessionId);
+        }
+    }, [sessionId]);
+
+    return {
+        events,
+        clear
+    };
+}
+
+/**
+ * Records the events the instrumentation bridge in a preview iframe posts to this window
+ */
+export function usePreviewBridge(iframeRef: RefObject<HTMLIFrameElement | null>, sessionId: string | undefined) {
+    useEffect(() => {
+        if (!sessionId) {
+            return;
+        }
+
+        const handleMessage = (message: MessageEvent) => {
+            // Only trust messages from our own preview iframe
+            if (message.source !== iframeRef.current?.contentWindow) return;
+            if (!isPreviewBridgeMessage(message.data)) return;
+
+            PreviewEventStore.add(sessionId, message.data.event);
+        };
+
+        window.addEventListener('message', handleMessage);
+        return () => window.removeEventListener('message', handleMessage);
+    }, [iframeRef, sessionId]);
+}
@@ -0,0 +1,48 @@
+import { useEffect, useState } from 'react';
+import { keepSandboxAlive } from '@/lib/actions/sandbox-lifecycle';
+
+const KEEP_ALIVE_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Pings the server while the tab is visible so the sandbox behind the preview stays alive.
+ * The session that created the sandbox proves the tab owns it.
+ */
+export function useSandboxKeepAlive(sandboxId?: string, sessionId?: string) {
+    const [isAlive, setIsAlive] = useState(true);
+
+    useEffect(() => {
+        if (!sandboxId || !sessionId) {
+            return;
+        }
+
+        setIsAlive(true);
+
+        const ping = async () => {
+            if (document.visibilityState !== 'visible') return;
+            try {
+                const { alive } = await keepSandboxAlive(sandboxId, sessionId);
+                setIsAlive(alive);
+            } catch (error) {
+                console.error('Sandbox keep-alive failed:', error);
+            }
+        };
+
+        // Ping right away when the tab becomes visible again
+        const handleVisibilityChange = () => {
+            if (document.visibilityState === 'visible') {
+                ping();
+            }
+        };
+
+        ping();
+        const interval = setInterval(ping, KEEP_ALIVE_INTERVAL_MS);
+        document.addEventListener('visibilitychange', handleVisibilityChange);
+
+        return () => {
+            clearInterval(interval);
+            document.removeEventListener('visibilitychange', handleVisibilityChange);
+        };
+    }, [sandboxId, sessionId]);
+
+    return { isAlive };
+}
@@ -0,0 +1,68 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { SandboxLogEntry } from '@/lib/sandbox/logs';
+
+interface UseSandboxLogsReturn {
+    logs: SandboxLogEntry[];
+    isConnected: boolean;
+    error: string | null;
+    clear: () => void;
+}
+
+const MAX_VISIBLE_LOGS = 1000;
+
+export function useSandboxLogs(sandboxId: string | undefined, sessionId: string | undefined): UseSandboxLogsReturn {
+    const [logs, setLogs] = useState<SandboxLogEntry[]>([]);
+    const [isConnected, setIsConnected] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const lastIdRef = useRef(0);
+
+    useEffect(() => {
+        setLogs([]);
+        lastIdRef.current = 0;
+        if (!sandboxId || !sessionId) {
+            return;
+        }
+
+        const eventSource = new EventSource(`/api/logs/${sandboxId}?sessionId=${encodeURIComponent(sessionId)}`);
+
+        eventSource.onopen = () => {
+            setIsConnected(true);
+            setError(null);
+        };
+
+        eventSource.onmessage = (event) => {
+            try {
+                const data = JSON.parse(event.data);
+
+                if (data.type === 'log') {
+                    const entry = data.data as SandboxLogEntry;
+                    // The server replays its backlog on reconnect, so skip entries we already have
+                    if (entry.id <= lastIdRef.current) return;
+                    lastIdRef.current = entry.id;
+                    setLogs(prev => [...prev, entry].slice(-MAX_VISIBLE_LOGS));
+                }
+            } catch (err) {
+                console.error('Error parsing log SSE data:', err);
+            }
+        };
+
+        eventSource.onerror = () => {
+            setIsConnected(false);
+            setError('Connection to log stream failed');
+        };
+
+        return () => {
+            eventSource.close();
+            setIsConnected(false);
+        };
+    }, [sandboxId, sessionId]);
+
+    const clear = useCallback(() => setLogs([]), []);
+
+    return {
+        logs,
+        isConnected,
+        error,
+        clear
+    };
+}
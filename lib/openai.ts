@@ -2,8 +2,11 @@
 import { streamObject } from 'ai';
 import { openai } from '@ai-sdk/openai';
 import { z } from 'zod';
-import { REACT_APP_SYSTEM_PROMPT, REACT_APP_USER_PROMPT, TEMPERATURE, MODEL, EDIT_SYSTEM_PROMPT, createEditUserPrompt } from './prompts';
-import { benchifyFileSchema } from './schemas';
+import { TEMPERATURE, MODEL, createEditUserPrompt, createTestUserPrompt, TEST_FAILURE_SYSTEM_PROMPT, createTestFailureUserPrompt } from './prompts';
+import { AppTemplate, getTemplate, TemplateId } from './templates';
+import { benchifyFileSchema, fileOperationSchema, FileOperation, FileChangeSet } from './schemas';
+import { isTestFile } from './sandbox/tests';
+import { TestRunResult } from './types';
 import { readFileSync } from 'fs';
 import { join } from 'path';
 
@@ -27,6 +30,7 @@ const fileSchema = z.object({
 // Generate a new application using AI SDK
 export async function createNewApp(
   description: string,
+  template: AppTemplate = getTemplate(),
 ): Promise<Array<{ path: string; contents: string }>> {
   console.log("Creating app with description: ", description);
 
@@ -37,8 +41,8 @@ export async function createNewApp(
       schema: fileSchema,
       temperature: TEMPERATURE,
       messages: [
-        { role: 'system', content: REACT_APP_SYSTEM_PROMPT },
-        { role: 'user', content: REACT_APP_USER_PROMPT(description) }
+        { role: 'system', content: template.systemPrompt },
+        { role: 'user', content: template.userPrompt(description) }
       ]
     });
 
@@ -60,13 +64,38 @@ export async function createNewApp(
   }
 }
 
-// Helper function to merge updated files with existing files
-function mergeFiles(existingFiles: z.infer<typeof benchifyFileSchema>, updatedFiles: z.infer<typeof benchifyFileSchema>): z.infer<typeof benchifyFileSchema> {
+// Helper function to apply file operations to the existing files
+function mergeFiles(existingFiles: z.infer<typeof benchifyFileSchema>, operations: FileOperation[]): z.infer<typeof benchifyFileSchema> {
   const existingMap = new Map(existingFiles.map(file => [file.path, file]));
 
-  // Apply updates
-  updatedFiles.forEach(updatedFile => {
-    existingMap.set(updatedFile.path, updatedFile);
+  // Apply operations in order
+  operations.forEach(operation => {
+    switch (operation.operation) {
+      case 'create':
+      case 'update':
+        if (operation.contents === undefined) {
+          console.warn('Skipping operation without contents:', operation.operation, operation.path);
+          break;
+        }
+        existingMap.set(operation.path, { path: operation.path, contents: operation.contents });
+        break;
+      case 'delete':
+        existingMap.delete(operation.path);
+        break;
+      case 'rename': {
+        const existingFile = existingMap.get(operation.path);
+        if (!operation.newPath || (!existingFile && operation.contents === undefined)) {
+          console.warn('Skipping invalid rename operation:', operation.path, '->', operation.newPath);
+          break;
+        }
+        existingMap.delete(operation.path);
+        existingMap.set(operation.newPath, {
+          path: operation.newPath,
+          contents: operation.contents ?? existingFile!.contents
+        });
+        break;
+      }
+    }
   });
 
   return Array.from(existingMap.values());
@@ -76,7 +105,8 @@ function mergeFiles(existingFiles: z.infer<typeof benchifyFileSchema>, updatedFi
 export async function editApp(
   existingFiles: z.infer<typeof benchifyFileSchema>,
   editInstruction: string,
-): Promise<z.infer<typeof benchifyFileSchema>> {
+  template: AppTemplate = getTemplate(),
+): Promise<FileChangeSet> {
   console.log("Editing app with instruction: ", editInstruction);
   console.log('Existing files:', existingFiles.map(f => ({ path: f.path, contentLength: f.contents.length })));
 
@@ -84,48 +114,164 @@ export async function editApp(
     const { elementStream } = streamObject({
       model: openai('gpt-4o-mini'),
       output: 'array',
-      schema: fileSchema,
+      schema: fileOperationSchema,
       temperature: 0.3, // Lower temperature for more consistent edits
       messages: [
-        { role: 'system', content: EDIT_SYSTEM_PROMPT },
+        { role: 'system', content: template.editSystemPrompt },
         { role: 'user', content: createEditUserPrompt(existingFiles, editInstruction) }
       ]
     });
 
-    const updatedFiles = [];
-    for await (const file of elementStream) {
-      updatedFiles.push(file);
+    const operations = [];
+    for await (const operation of elementStream) {
+      operations.push(operation);
     }
 
-    if (!updatedFiles.length) {
+    if (!operations.length) {
       throw new Error("Failed to generate updated files - received empty response");
     }
 
-    console.log("Generated updated files: ", updatedFiles.map(f => ({ path: f.path, contentLength: f.contents.length })));
+    console.log("Generated file operations: ", operations.map(op => ({ operation: op.operation, path: op.path, newPath: op.newPath, contentLength: op.contents?.length })));
 
-    // Merge the updated files with the existing files
-    const mergedFiles = mergeFiles(existingFiles, updatedFiles);
+    // Apply the operations to the existing files
+    const mergedFiles = mergeFiles(existingFiles, operations);
     console.log('Final merged files:', mergedFiles.map(f => ({ path: f.path, contentLength: f.contents.length })));
 
-    return mergedFiles;
+    return { files: mergedFiles, operations };
   } catch (error) {
     console.error('Error editing app:', error);
     throw error;
   }
 }
 
+// Write Vitest + Testing Library tests for the components in src/components and merge them into the project
+export async function generateComponentTests(
+  existingFiles: z.infer<typeof benchifyFileSchema>,
+  template: AppTemplate = getTemplate(),
+): Promise<FileChangeSet> {
+  const componentPaths = existingFiles
+    .map(file => file.path)
+    .filter(path => path.startsWith('src/components/') && !isTestFile(path));
+  if (!componentPaths.length) {
+    throw new Error('There are no components in src/components to test');
+  }
+  console.log('Generating tests for components: ', componentPaths);
+
+  try {
+    const { elementStream } = streamObject({
+      model: openai(MODEL),
+      output: 'array',
+      schema: fileSchema,
+      temperature: 0.2, // Tests should stick to what the components do
+      messages: [
+        { role: 'system', content: template.testSystemPrompt },
+        { role: 'user', content: createTestUserPrompt(existingFiles, componentPaths) }
+      ]
+    });
+
+    const existingPaths = new Set(existingFiles.map(file => file.path));
+    const operations: FileOperation[] = [];
+    for await (const file of elementStream) {
+      // Never let test generation touch the app itself
+      if (!isTestFile(file.path)) {
+        console.warn('Skipping non-test file from test generation:', file.path);
+        continue;
+      }
+      operations.push({ operation: existingPaths.has(file.path) ? 'update' : 'create', path: file.path, contents: file.contents });
+    }
+
+    if (!operations.length) {
+      throw new Error("Failed to generate tests - received empty response");
+    }
+
+    console.log("Generated test files: ", operations.map(op => ({ path: op.path, contentLength: op.contents?.length })));
+    return { files: mergeFiles(existingFiles, operations), operations };
+  } catch (error) {
+    console.error('Error generating tests:', error);
+    throw error;
+  }
+}
+
+// Schema for the classification of a single failing test
+const testFailureSchema = z.object({
+  file: z.string(),
+  test: z.string(),
+  cause: z.enum(['component', 'test']),
+  explanation: z.string()
+});
+
+// Decide for each failing test (or test file) whether the component or the test is wrong
+export async function classifyTestFailures(
+  files: z.infer<typeof benchifyFileSchema>,
+  result: TestRunResult,
+): Promise<TestRunResult> {
+  const failures = [
+    ...result.fileErrors.map(fileError => ({ file: fileError.file, test: '', message: fileError.message })),
+    ...result.tests
+      .filter(test => test.status === 'failed')
+      .map(test => ({ file: test.file, test: test.name, message: test.failureMessages.join('\n') }))
+  ];
+  if (!failures.length) {
+    return result;
+  }
+
+  try {
+    const { elementStream } = streamObject({
+      model: openai(MODEL),
+      output: 'array',
+      schema: testFailureSchema,
+      temperature: 0,
+      messages: [
+        { role: 'system', content: TEST_FAILURE_SYSTEM_PROMPT },
+        { role: 'user', content: createTestFailureUserPrompt(files, failures) }
+      ]
+    });
+
+    const classifications = new Map<string, z.infer<typeof testFailureSchema>>();
+    for await (const classification of elementStream) {
+      classifications.set(`${classification.file}\0${classification.test}`, classification);
+    }
+    console.log('Classified test failures: ', Array.from(classifications.values()).map(c => ({ file: c.file, test: c.test, cause: c.cause })));
+
+    const classify = <T extends { file: string }>(item: T, test: string): T => {
+      const classification = classifications.get(`${item.file}\0${test}`);
+      return classification ? { ...item, cause: classification.cause, explanation: classification.explanation } : item;
+    };
+    return {
+      ...result,
+      fileErrors: result.fileErrors.map(fileError => classify(fileError, '')),
+      tests: result.tests.map(test => test.status === 'failed' ? classify(test, test.name) : test)
+    };
+  } catch (error) {
+    // Unclassified failures can still be fixed, just without the hint
+    console.error('Error classifying test failures:', error);
+    return result;
+  }
+}
+
+// Describe freshly generated files as create operations
+function toCreateOperations(files: z.infer<typeof benchifyFileSchema>): FileChangeSet {
+  return {
+    files,
+    operations: files.map(file => ({ operation: 'create' as const, path: file.path, contents: file.contents }))
+  };
+}
+
 // Main function to handle both generation and editing
 export async function generateAppCode(
   description: string,
   existingFiles?: z.infer<typeof benchifyFileSchema>,
   editInstruction?: string,
-  useBuggyCode: boolean = false
-): Promise<z.infer<typeof benchifyFileSchema>> {
+  useBuggyCode: boolean = false,
+  templateId?: TemplateId
+): Promise<FileChangeSet> {
+  const template = getTemplate(templateId);
+
   // Determine if this is an edit request or new generation
   if (existingFiles && editInstruction) {
     // Edit existing code (including error fixes)
     console.log('📝 Processing edit request...');
-    return await editApp(existingFiles, editInstruction);
+    return await editApp(existingFiles, editInstruction, template);
   } else {
     // Generate new app
     console.log('🆕 Processing new generation request...');
@@ -133,11 +279,11 @@ export async function generateAppCode(
       console.log('🐛 Using buggy code as requested');
       // Return the buggy code in the expected format from JSON file
       try {
-        return [{
+        return toCreateOperations([{
           "path": "src/App.tsx",
           "contents": readBuggyFile('broken_contents.txt'),
 
-        }]
+        }])
       } catch (error) {
         console.error('Error reading buggy code from JSON file:', error);
         // Fallback to default buggy code if file reading fails
@@ -145,11 +291,11 @@ export async function generateAppCode(
           path: "src/App.tsx",
           contents: `console.log('Hello World')`
         }];
-        return fallbackBuggyCode;
+        return toCreateOperations(fallbackBuggyCode);
       }
     } else {
       console.log('🤖 Calling AI to generate app...');
-      return await createNewApp(description);
+      return toCreateOperations(await createNewApp(description, template));
     }
   }
-}
\ No newline at end of file
+}
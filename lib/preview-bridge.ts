@@ -0,0 +1,158 @@
+/**
+ * Protocol between the instrumentation script injected into the generated app and the
+ * PreviewCard that hosts it in an iframe. The script posts every event to the parent window.
+ */
+
+// Marks messages that come from the bridge (the generated app may post its own messages)
+export const PREVIEW_BRIDGE_SOURCE = 'ui-builder-preview-bridge';
+
+// Where the bridge is served from inside the sandbox (relative to /app)
+export const PREVIEW_BRIDGE_FILE = 'public/__preview-bridge.js';
+export const PREVIEW_BRIDGE_TAG = '<script src="/__preview-bridge.js"></script>';
+// The tag plus the indentation and line break it is injected with
+const PREVIEW_BRIDGE_TAG_PATTERN = /[ \t]*<script src="\/__preview-bridge\.js"><\/script>\r?\n?/g;
+
+/**
+ * Removes the bridge tag from index.html. The sandbox serves it, but it is not part of the project.
+ */
+export function removePreviewBridgeTag(html: string): string {
+    return html.replace(PREVIEW_BRIDGE_TAG_PATTERN, '');
+}
+
+export type PreviewConsoleLevel = 'log' | 'info' | 'warn' | 'error' | 'debug';
+
+export type PreviewEvent =
+    // Sent once when the page (re)loads
+    | { kind: 'load'; url: string; timestamp: number }
+    | { kind: 'console'; level: PreviewConsoleLevel; message: string; stack?: string; timestamp: number }
+    | { kind: 'error'; message: string; stack?: string; file?: string; line?: number; column?: number; timestamp: number }
+    | { kind: 'unhandledrejection'; message: string; stack?: string; timestamp: number }
+    | { kind: 'network'; url: string; method: string; status?: number; message: string; timestamp: number }
+    | { kind: 'timing'; name: string; duration: number; timestamp: number };
+
+export interface PreviewBridgeMessage {
+    source: typeof PREVIEW_BRIDGE_SOURCE;
+    event: PreviewEvent;
+}
+
+export function isPreviewBridgeMessage(data: unknown): data is PreviewBridgeMessage {
+    return typeof data === 'object' && data !== null &&
+        (data as PreviewBridgeMessage).source === PREVIEW_BRIDGE_SOURCE &&
+        typeof (data as PreviewBridgeMessage).event === 'object';
+}
+
+/**
+ * Runs in the generated app before any module script. Kept dependency-free and ES2017 so it
+ * works unchanged in every template.
+ */
+export const PREVIEW_BRIDGE_SCRIPT = `(function () {
+    if (window.parent === window || window.__previewBridgeInstalled) return;
+    window.__previewBridgeInstalled = true;
+
+    var SOURCE = ${JSON.stringify(PREVIEW_BRIDGE_SOURCE)};
+    function post(event) {
+        event.timestamp = Date.now();
+        try {
+            window.parent.postMessage({ source: SOURCE, event: event }, '*');
+        } catch (e) {
+            // Event payload could not be cloned
+        }
+    }
+    function describe(value) {
+        if (value instanceof Error) return value.stack || String(value);
+        if (typeof value === 'string') return value;
+        try {
+            return JSON.stringify(value);
+        } catch (e) {
+            return String(value);
+        }
+    }
+
+    post({ kind: 'load', url: location.href });
+
+    ['log', 'info', 'warn', 'error', 'debug'].forEach(function (level) {
+        var original = console[level];
+        console[level] = function () {
+            var args = Array.prototype.slice.call(arguments);
+            var error = args.find(function (arg) { return arg instanceof Error; });
+            post({
+                kind: 'console',
+                level: level,
+                message: args.map(describe).join(' '),
+                stack: error ? error.stack : (level === 'error' ? new Error().stack : undefined)
+            });
+            return original.apply(console, args);
+        };
+    });
+
+    window.addEventListener('error', function (event) {
+        // Resource load failures have no message and are reported as network events
+        if (!event.message) return;
+        post({
+            kind: 'error',
+            message: event.message,
+            stack: event.error && event.error.stack,
+            file: event.filename,
+            line: event.lineno,
+            column: event.colno
+        });
+    });
+
+    window.addEventListener('unhandledrejection', function (event) {
+        var reason = event.reason;
+        post({
+            kind: 'unhandledrejection',
+            message: reason instanceof Error ? reason.message : describe(reason),
+            stack: reason && reason.stack
+        });
+    });
+
+    window.addEventListener('error', function (event) {
+        var target = event.target;
+        if (target && target !== window && (target.src || target.href)) {
+            post({ kind: 'network', url: target.src || target.href, method: 'GET', message: 'Failed to load ' + target.tagName.toLowerCase() });
+        }
+    }, true);
+
+    var originalFetch = window.fetch;
+    if (originalFetch) {
+        window.fetch = function (input, init) {
+            var url = typeof input === 'string' ? input : (input && input.url) || String(input);
+            var method = (init && init.method) || (input && input.method) || 'GET';
+            return originalFetch.apply(this, arguments).then(function (response) {
+                if (!response.ok) {
+                    post({ kind: 'network', url: url, method: method, status: response.status, message: response.status + ' ' + response.statusText });
+                }
+                return response;
+            }, function (error) {
+                post({ kind: 'network', url: url, method: method, message: String(error && error.message || error) });
+                throw error;
+            });
+        };
+    }
+
+    var originalOpen = XMLHttpRequest.prototype.open;
+    XMLHttpRequest.prototype.open = function (method, url) {
+        var xhr = this;
+        xhr.addEventListener('loadend', function () {
+            if (xhr.status === 0 || xhr.status >= 400) {
+                post({ kind: 'network', url: String(url), method: method, status: xhr.status || undefined, message: xhr.status ? xhr.status + ' ' + xhr.statusText : 'Request failed' });
+            }
+        });
+        return originalOpen.apply(xhr, arguments);
+    };
+
+    window.addEventListener('load', function () {
+        setTimeout(function () {
+            var navigation = performance.getEntriesByType('navigation')[0];
+            if (navigation) {
+                post({ kind: 'timing', name: 'dom-content-loaded', duration: navigation.domContentLoadedEventEnd });
+                post({ kind: 'timing', name: 'load', duration: navigation.loadEventEnd || performance.now() });
+            }
+            performance.getEntriesByType('paint').forEach(function (entry) {
+                post({ kind: 'timing', name: entry.name, duration: entry.startTime });
+            });
+        }, 0);
+    });
+})();
+`;
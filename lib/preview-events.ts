@@ -0,0 +1,108 @@
+import { PreviewEvent } from './preview-bridge';
+
+export type StoredPreviewEvent = PreviewEvent & { id: number };
+
+const MAX_EVENTS_PER_SESSION = 500;
+
+// Browser-side store of what each session's preview iframe reported through the bridge
+const eventStore = new Map<string, StoredPreviewEvent[]>();
+const subscriptions = new Map<string, Set<(events: StoredPreviewEvent[]) => void>>();
+let nextEventId = 0;
+
+export class PreviewEventStore {
+    static add(sessionId: string, event: PreviewEvent) {
+        const events = [...(eventStore.get(sessionId) ?? []), { ...event, id: ++nextEventId }];
+        // Keep only the most recent events
+        eventStore.set(sessionId, events.slice(-MAX_EVENTS_PER_SESSION));
+        PreviewEventStore.emit(sessionId);
+    }
+
+    static getEvents(sessionId: string): StoredPreviewEvent[] {
+        return eventStore.get(sessionId) ?? [];
+    }
+
+    static clear(sessionId: string) {
+        eventStore.delete(sessionId);
+        PreviewEventStore.emit(sessionId);
+    }
+
+    static subscribe(sessionId: string, callback: (events: StoredPreviewEvent[]) => void) {
+        if (!subscriptions.has(sessionId)) {
+            subscriptions.set(sessionId, new Set());
+        }
+
+        const callbacks = subscriptions.get(sessionId)!;
+        callbacks.add(callback);
+        callback(PreviewEventStore.getEvents(sessionId));
+
+        return () => {
+            callbacks.delete(callback);
+            if (callbacks.size === 0) {
+                subscriptions.delete(sessionId);
+            }
+        };
+    }
+
+    private static emit(sessionId: string) {
+        const events = PreviewEventStore.getEvents(sessionId);
+        subscriptions.get(sessionId)?.forEach(callback => callback(events));
+    }
+}
+
+/**
+ * Errors the preview reported since its last reload
+ */
+export function getPreviewErrors(sessionId: string): StoredPreviewEvent[] {
+    const events = PreviewEventStore.getEvents(sessionId);
+    const lastLoad = events.map(event => event.kind).lastIndexOf('load');
+
+    return events.slice(lastLoad + 1).filter(event =>
+        event.kind === 'error' ||
+        event.kind === 'unhandledrejection' ||
+        event.kind === 'network' ||
+        (event.kind === 'console' && event.level === 'error')
+    );
+}
+
+/**
+ * Formats preview errors as plain text for edit instructions
+ */
+export function formatPreviewErrors(events: PreviewEvent[]): string {
+    return events.map(event => {
+        switch (event.kind) {
+            case 'error':
+                return `Uncaught error: ${event.message}${event.file ? ` (${event.file}:${event.line}:${event.column})` : ''}`;
+            case 'unhandledrejection':
+                return `Unhandled promise rejection: ${event.message}`;
+            case 'network':
+                return `Request failed: ${event.method} ${event.url} (${event.message})`;
+            case 'console':
+                return `console.${event.level}: ${event.message}`;
+            default:
+                return '';
+        }
+    }).filter(Boolean).join('\n');
+}
+
+export interface SourceLocation {
+    file: string;
+    line: number;
+    column: number;
+}
+
+/**
+ * Extracts project source locations from a stack trace, e.g. "at App (http://host/src/App.tsx?t=1712:12:5)"
+ */
+export function getSourceLocations(stack: string | undefined): SourceLocation[] {
+    if (!stack) return [];
+
+    const locations: SourceLocation[] = [];
+    for (const match of stack.matchAll(/https?:\/\/[^/\s]+\/(src\/[^?:\s)]+)(?:\?[^:\s)]*)?:(\d+):(\d+)/g)) {
+        locations.push({
+            file: match[1],
+            line: parseInt(match[2], 10),
+            column: parseInt(match[3], 10)
+        });
+    }
+    return locations;
+}
@@ -170,6 +170,60 @@ export class ProgressTracker {
         this.emitUpdate();
     }
 
+    updateStep(stepId: string, changes: Partial<Pick<ProgressStep, 'label' | 'description'>>) {
+        const state = progressStore.get(this.sessionId);
+        if (!state) return;
+
+        const stepIndex = state.steps.findIndex(step => step.id === stepId);
+        if (stepIndex === -1) return;
+
+        // Update step text (e.g. when the pipeline takes a shortcut)
+        state.steps[stepIndex] = { ...state.steps[stepIndex], ...changes };
+
+        progressStore.set(this.sessionId, state);
+        this.emitUpdate();
+    }
+
+    /**
+     * Swaps every pending step for a new set of steps, e.g. when the pipeline falls back to a different path
+     */
+    replacePendingSteps(steps: Omit<ProgressStep, 'status'>[]) {
+        const state = progressStore.get(this.sessionId);
+        if (!state) return;
+
+        const currentStep = state.steps[state.currentStepIndex];
+        state.steps = [
+            ...state.steps.filter(step => step.status !== 'pending'),
+            ...steps.map(step => ({ ...step, status: 'pending' as const }))
+        ];
+        state.currentStepIndex = currentStep ? state.steps.indexOf(currentStep) : -1;
+        state.isComplete = false;
+
+        progressStore.set(this.sessionId, state);
+        this.emitUpdate();
+    }
+
+    /**
+     * Queues the steps of a pass that runs again (e.g. a second update). Earlier runs of the same
+     * steps are dropped along with every pending step, so each step id appears once.
+     */
+    rerunSteps(steps: Omit<ProgressStep, 'status'>[]) {
+        const state = progressStore.get(this.sessionId);
+        if (!state) return;
+
+        const rerunIds = new Set(steps.map(step => step.id));
+        state.steps = [
+            ...state.steps.filter(step => step.status !== 'pending' && !rerunIds.has(step.id)),
+            ...steps.map(step => ({ ...step, status: 'pending' as const }))
+        ];
+        state.currentStepIndex = -1;
+        state.isComplete = false;
+        state.hasError = state.steps.some(step => step.status === 'error');
+
+        progressStore.set(this.sessionId, state);
+        this.emitUpdate();
+    }
+
     getState(): ProgressState | undefined {
         return progressStore.get(this.sessionId);
     }
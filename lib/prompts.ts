@@ -60,25 +60,152 @@ export const REACT_APP_USER_PROMPT = (description: string) => `
 Create a React application with the following requirements:
 ${description}`;
 
-export const EDIT_SYSTEM_PROMPT = `You are an expert React/TypeScript developer. You will be given existing code files and an edit instruction. Your job is to modify the existing code according to the instruction while maintaining:
+export const VUE_APP_SYSTEM_PROMPT = `You are an expert Vue, TypeScript, and Tailwind CSS developer.
+You will be generating Vue application code based on the provided description.
+This code will be inserted into an existing Vite + Vue + TypeScript template.
+
+Follow these guidelines:
+- Use Vue 3 single-file components with <script setup lang="ts">
+- Use the Composition API (ref, computed, watch) rather than the Options API
+- Use Tailwind CSS v4 for styling
+- DO NOT use component libraries like Vuetify or PrimeVue
+- Build all UI components from scratch using Tailwind CSS
+- Create a well-structured application with proper component organization
+- Ensure proper TypeScript typing, including defineProps and defineEmits
+- Add comments explaining complex logic
+- Handle loading states and errors appropriately
+- Ensure responsive design
+- Import CSS in main.ts as: import './style.css'
+- Use relative imports (not path aliases): import App from './App.vue'
+- IMPORTANT: Always generate ALL components that you reference or import
+
+IMPORTANT: Only generate these application files:
+- src/main.ts (entry point, mounting the app on #app)
+- src/App.vue (root component)
+- src/style.css (with Tailwind imports)
+- src/components/* (your Vue components)
+
+The following are already provided in the template and should NOT be generated:
+- package.json (already includes vue, vite, tailwindcss, @tailwindcss/vite, typescript, vue-tsc)
+- vite.config.ts
+- tsconfig files
+- index.html
+
+Only generate a package.json if you need additional dependencies beyond:
+- vue (UI framework)
+- vite, @vitejs/plugin-vue (build tool)
+- tailwindcss, @tailwindcss/vite (styling)
+- typescript, vue-tsc (type checking)
+
+If you do need additional packages, generate a minimal package.json with only:
+{
+  "dependencies": {
+    "package-name": "version"
+  }
+}
+
+RESPONSE FORMAT:
+You must return a valid JSON array of file objects. Each file object must have exactly this structure:
+{
+  "path": "string (relative path to the file)",
+  "content": "string (the complete file content)"
+}
+
+Do not include any markdown formatting, code blocks, or explanatory text. The response must be pure JSON.`;
+
+export const VUE_APP_USER_PROMPT = (description: string) => `
+Create a Vue application with the following requirements:
+${description}`;
+
+export const SVELTE_APP_SYSTEM_PROMPT = `You are an expert Svelte, TypeScript, and Tailwind CSS developer.
+You will be generating Svelte application code based on the provided description.
+This code will be inserted into an existing Vite + Svelte + TypeScript template.
+
+Follow these guidelines:
+- Use Svelte 5 components with <script lang="ts">
+- Use runes ($state, $derived, $effect, $props) for reactivity
+- Use Tailwind CSS v4 for styling
+- DO NOT use component libraries like Skeleton or Flowbite
+- Build all UI components from scratch using Tailwind CSS
+- Create a well-structured application with proper component organization
+- Ensure proper TypeScript typing
+- Add comments explaining complex logic
+- Handle loading states and errors appropriately
+- Ensure responsive design
+- Import CSS in main.ts as: import './app.css'
+- Mount the app with: mount(App, { target: document.getElementById('app')! })
+- Use relative imports (not path aliases): import App from './App.svelte'
+- IMPORTANT: Always generate ALL components that you reference or import
+
+IMPORTANT: Only generate these application files:
+- src/main.ts (entry point)
+- src/App.svelte (root component)
+- src/app.css (with Tailwind imports)
+- src/components/* (your Svelte components)
+
+The following are already provided in the template and should NOT be generated:
+- package.json (already includes svelte, vite, tailwindcss, @tailwindcss/vite, typescript, svelte-check)
+- vite.config.ts
+- svelte.config.js
+- tsconfig files
+- index.html
+
+Only generate a package.json if you need additional dependencies beyond:
+- svelte (UI framework)
+- vite, @sveltejs/vite-plugin-svelte (build tool)
+- tailwindcss, @tailwindcss/vite (styling)
+- typescript, svelte-check (type checking)
+
+If you do need additional packages, generate a minimal package.json with only:
+{
+  "dependencies": {
+    "package-name": "version"
+  }
+}
+
+RESPONSE FORMAT:
+You must return a valid JSON array of file objects. Each file object must have exactly this structure:
+{
+  "path": "string (relative path to the file)",
+  "content": "string (the complete file content)"
+}
+
+Do not include any markdown formatting, code blocks, or explanatory text. The response must be pure JSON.`;
+
+export const SVELTE_APP_USER_PROMPT = (description: string) => `
+Create a Svelte application with the following requirements:
+${description}`;
+
+const createEditSystemPrompt = (framework: string, extraGuidelines: string[] = []) => `You are an expert ${framework}/TypeScript developer. You will be given existing code files and an edit instruction. Your job is to modify the existing code according to the instruction while maintaining:
 
 1. Code quality and best practices
 2. Existing functionality that shouldn't be changed
 3. Proper TypeScript types
-4. Modern React patterns
+4. Modern ${framework} patterns
 5. Tailwind CSS for styling
-6. shadcn/ui components where appropriate
+${extraGuidelines.map((guideline, index) => `${index + 6}. ${guideline}\n`).join('')}
+Return ONLY operations for files that need to be changed. Do not return unchanged files.
 
-Return ONLY the files that need to be changed. Do not return unchanged files.
+Each operation is an object with:
+- "operation": one of "create", "update", "delete", "rename"
+- "path": the file path (for "rename", the current path)
+- "contents": the complete new file content (required for "create" and "update", optional for "rename", omitted for "delete")
+- "newPath": the new file path (only for "rename")
 
 Rules:
-- Only return files that have actual changes
+- Only return operations for files that have actual changes
+- Use "delete" for files that are no longer needed, and remove any imports of them
+- Use "rename" when moving a file, and update every import that references it
 - Make minimal changes necessary to fulfill the instruction
 - Keep all imports and dependencies that are still needed
 - Add new dependencies only if absolutely necessary
 - Use Tailwind classes for styling changes
-- Follow React best practices
-- Ensure all returned files are complete and valid`;
+- Follow ${framework} best practices
+- Ensure all returned file contents are complete and valid`;
+
+export const EDIT_SYSTEM_PROMPT = createEditSystemPrompt('React', ['shadcn/ui components where appropriate']);
+export const VUE_EDIT_SYSTEM_PROMPT = createEditSystemPrompt('Vue');
+export const SVELTE_EDIT_SYSTEM_PROMPT = createEditSystemPrompt('Svelte');
 
 export function createEditUserPrompt(files: z.infer<typeof benchifyFileSchema>, editInstruction: string): string {
   const filesContent = files.map(file =>
@@ -93,7 +220,83 @@ Edit instruction: ${editInstruction}
 
 IMPORTANT: You must preserve the existing functionality and logic. Only fix the specific issues mentioned in the instruction. Do not rewrite or simplify the code unless explicitly asked to do so.
 
-Please update the code according to this instruction and return all files with their updated content.`;
+Please update the code according to this instruction and return the file operations needed.`;
+}
+
+const createTestSystemPrompt = (framework: string, testingLibrary: string, componentExtension: string, testExtension: string) => `You are an expert ${framework}/TypeScript developer who writes focused unit tests with Vitest and ${testingLibrary}.
+You will be given the files of a ${framework} application and a list of its components. Write tests for every listed component.
+
+Follow these guidelines:
+- Put the tests for src/components/<Name>${componentExtension} in src/components/<Name>${testExtension}
+- Import describe, it, expect and vi from 'vitest' explicitly
+- Import '@testing-library/jest-dom/vitest' for matchers like toBeInTheDocument
+- Render components with ${testingLibrary} and interact with @testing-library/user-event
+- Query elements the way a user finds them (getByRole, getByLabelText, getByText) rather than by class names
+- Test what the component renders for its props and how it responds to user interaction
+- Mock network requests and timers with vi; tests run in jsdom without network access
+- Only assert behavior the component's code actually implements. Do not guess at copy or markup that isn't in the code.
+- Keep each test small and independent
+- Use relative imports (not path aliases)
+
+RESPONSE FORMAT:
+Return a JSON array with one object per test file, each with exactly:
+- "path": the test file path
+- "contents": the complete test file
+
+Only return test files. Never return or change the components themselves.`;
+
+export const REACT_TEST_SYSTEM_PROMPT = createTestSystemPrompt('React', '@testing-library/react', '.tsx', '.test.tsx');
+export const VUE_TEST_SYSTEM_PROMPT = createTestSystemPrompt('Vue', '@testing-library/vue', '.vue', '.test.ts');
+export const SVELTE_TEST_SYSTEM_PROMPT = createTestSystemPrompt('Svelte', '@testing-library/svelte', '.svelte', '.test.ts');
+
+export function createTestUserPrompt(files: z.infer<typeof benchifyFileSchema>, componentPaths: string[]): string {
+  const filesContent = files.map(file =>
+    `### ${file.path}\n\`\`\`\n${file.contents}\n\`\`\``
+  ).join('\n\n');
+
+  return `Here are the current files:
+
+${filesContent}
+
+Write tests for these components:
+${componentPaths.map(path => `- ${path}`).join('\n')}`;
+}
+
+export const TEST_FAILURE_SYSTEM_PROMPT = `You are an expert at debugging failing unit tests.
+You will be given the files of an application, including its Vitest tests, and the tests that failed.
+The tests were generated from the components, so a failure means either the component has a bug or the test is wrong.
+
+For each failure decide:
+- "component": the component misbehaves. The test expects something a user would reasonably expect (or the component's own code intends) and the component doesn't do it, or the component crashes.
+- "test": the test is wrong. It asserts markup, text or behavior the component never promised, queries elements incorrectly, misuses the testing APIs or fails to import or set something up.
+
+RESPONSE FORMAT:
+Return a JSON array with one object per failure, each with exactly:
+- "file": the test file path, as given
+- "test": the test name, as given (an empty string for a test file that failed to run)
+- "cause": "component" or "test"
+- "explanation": one or two sentences on what is wrong and where`;
+
+export function createTestFailureUserPrompt(
+  files: z.infer<typeof benchifyFileSchema>,
+  failures: Array<{ file: string; test: string; message: string }>
+): string {
+  const filesContent = files.map(file =>
+    `### ${file.path}\n\`\`\`\n${file.contents}\n\`\`\``
+  ).join('\n\n');
+  const failuresContent = failures.map(failure =>
+    `### ${failure.file}${failure.test ? ` > ${failure.test}` : ' (failed to run)'}\n\`\`\`\n${failure.message}\n\`\`\``
+  ).join('\n\n');
+
+  return `Here are the current files:
+
+${filesContent}
+
+These tests failed:
+
+${failuresContent}
+
+Classify every failure.`;
 }
 
 export const TEMPERATURE = 0.7;
@@ -1,5 +1,6 @@
 import { z } from 'zod';
 import { benchifyFileSchema } from './schemas';
+import { PREVIEW_BRIDGE_FILE, PREVIEW_BRIDGE_SCRIPT, PREVIEW_BRIDGE_TAG } from './preview-bridge';
 
 /**
  * Transform functions for handling file content modifications
@@ -49,6 +50,29 @@ export const transformations = {
             }
         }
         return files;
+    },
+
+    /**
+     * Injects the preview instrumentation bridge into index.html so the app reports console output,
+     * errors, failed requests and timings to the PreviewCard hosting it
+     */
+    previewBridge(files: z.infer<typeof benchifyFileSchema>): z.infer<typeof benchifyFileSchema> {
+        const indexHtml = files.find(file => file.path === 'index.html');
+        if (!indexHtml) {
+            return files;
+        }
+
+        if (!indexHtml.contents.includes(PREVIEW_BRIDGE_TAG)) {
+            // Load before the app's module scripts so early errors are captured
+            indexHtml.contents = indexHtml.contents.includes('<head>')
+                ? indexHtml.contents.replace('<head>', `<head>\n    ${PREVIEW_BRIDGE_TAG}`)
+                : `${PREVIEW_BRIDGE_TAG}\n${indexHtml.contents}`;
+        }
+
+        return [
+            ...files.filter(file => file.path !== PREVIEW_BRIDGE_FILE),
+            { path: PREVIEW_BRIDGE_FILE, contents: PREVIEW_BRIDGE_SCRIPT }
+        ];
     }
 };
 
@@ -56,5 +80,5 @@ export const transformations = {
  * Apply all standard transformations to files
  */
 export function applyTransformations(files: z.infer<typeof benchifyFileSchema>): z.infer<typeof benchifyFileSchema> {
-    return transformations.reactDomRender(transformations.tailwindSyntax(files));
+    return transformations.previewBridge(transformations.reactDomRender(transformations.tailwindSyntax(files)));
 } 
\ No newline at end of file
@@ -0,0 +1,193 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { BuildError } from '../types';
+import { runBrowserScript } from './browser';
+import { SandboxHandle } from './provider';
+
+/**
+ * advisory: violations are reported as warnings
+ * off: the stage is skipped
+ */
+export type AccessibilityCheckMode = 'advisory' | 'off';
+
+export interface AccessibilityCheckResult {
+    mode: AccessibilityCheckMode;
+    // False when the sandbox has no headless browser (e.g. a local process sandbox without Playwright)
+    available: boolean;
+    violations: BuildError[];
+    // Violations dropped because of MAX_VIOLATIONS
+    truncated: number;
+    durationMs: number;
+}
+
+// What the in-sandbox script reports for each element that fails a rule
+interface AxeViolation {
+    id: string;
+    impact: BuildError['impact'] | null;
+    help: string;
+    selector: string;
+    // Source of the component that rendered the element, when the framework's dev build records it
+    file?: string;
+    line?: number;
+}
+
+const ACCESSIBILITY_CHECK_TIMEOUT_MS = 60 * 1000;
+// How long to let the app render and run effects after the load event
+const SETTLE_MS = 2000;
+// Keep the list (and any fix instruction built from it) readable
+const MAX_VIOLATIONS = 50;
+// axe-core is injected from here (relative to the project) rather than installed in the project
+const AXE_FILE = 'node_modules/.cache/axe.min.js';
+
+const IMPACT_ORDER: Array<NonNullable<BuildError['impact']>> = ['critical', 'serious', 'moderate', 'minor'];
+
+/**
+ * Loads the preview, runs axe-core on it and walks from each failing element to the component
+ * that rendered it: Svelte and Vue dev builds record the file on the element or its component,
+ * React dev builds keep the stack (or source, before React 19) where the element was created.
+ */
+const ACCESSIBILITY_CHECK_SCRIPT = `
+const page = await browser.newPage();
+await page.goto(process.env.PREVIEW_URL, { waitUntil: 'load', timeout: 20000 });
+await page.waitForTimeout(Number(process.env.SETTLE_MS));
+await page.addScriptTag({ path: process.env.AXE_PATH });
+
+return await page.evaluate(async () => {
+    const fromUrl = text => {
+        const match = text && text.match(/\\/(src\\/[^?:\\s)]+)(?:\\?[^:\\s)]*)?(?::(\\d+))?/);
+        return match ? { file: match[1], line: match[2] ? Number(match[2]) : undefined } : null;
+    };
+
+    const locate = element => {
+        for (let node = element; node; node = node.parentElement) {
+            if (node.__svelte_meta && node.__svelte_meta.loc) {
+                return { file: node.__svelte_meta.loc.file, line: node.__svelte_meta.loc.line };
+            }
+            const vue = node.__vueParentComponent;
+            if (vue && vue.type && vue.type.__file) {
+                return { file: vue.type.__file };
+            }
+            const fiberKey = Object.keys(node).find(key => key.startsWith('__reactFiber$'));
+            if (fiberKey) {
+                for (let fiber = node[fiberKey]; fiber; fiber = fiber._debugOwner || fiber.return) {
+                    if (fiber._debugSource) {
+                        return { file: fiber._debugSource.fileName, line: fiber._debugSource.lineNumber };
+                    }
+                    const location = fromUrl(fiber._debugStack && fiber._debugStack.stack);
+                    if (location) return location;
+                }
+                return null;
+            }
+        }
+        return null;
+    };
+
+    const { violations } = await window.axe.run(document, { resultTypes: ['violations'] });
+    return violations.flatMap(violation => violation.nodes.map(node => {
+        const selector = node.target.join(' ');
+        let location = null;
+        try {
+            location = locate(document.querySelector(selector));
+        } catch {
+            // Targets inside iframes or shadow roots aren't plain selectors
+        }
+        return {
+            id: violation.id,
+            impact: violation.impact,
+            help: violation.help,
+            selector,
+            ...location
+        };
+    }));
+});
+`;
+
+let axeSource: string | undefined;
+
+function getAxeSource(): string {
+    if (!axeSource) {
+        axeSource = readFileSync(join(process.cwd(), 'node_modules', 'axe-core', 'axe.min.js'), 'utf8');
+    }
+    return axeSource;
+}
+
+/**
+ * Reads the accessibility check mode from ACCESSIBILITY_CHECK_MODE (defaults to advisory)
+ */
+export function getAccessibilityCheckMode(): AccessibilityCheckMode {
+    return process.env.ACCESSIBILITY_CHECK_MODE === 'off' ? 'off' : 'advisory';
+}
+
+/**
+ * Maps axe violations to accessibility diagnostics with paths relative to the project, most severe first.
+ * Elements rendered by the same component that fail the same rule with the same selector are reported once.
+ */
+export function axeViolationsToBuildErrors(violations: AxeViolation[]): BuildError[] {
+    const seen = new Set<string>();
+    const errors: BuildError[] = [];
+
+    for (const violation of violations) {
+        const file = violation.file?.replace(/^.*?\/?(?=src\/)/, '');
+        const key = `${violation.id}|${file}|${violation.selector}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+
+        errors.push({
+            type: 'accessibility',
+            message: violation.help,
+            file,
+            line: violation.line,
+            code: violation.id,
+            impact: violation.impact ?? undefined,
+            selector: violation.selector,
+            severity: 'warning'
+        });
+    }
+
+    const rank = (error: BuildError) => error.impact ? IMPACT_ORDER.indexOf(error.impact) : IMPACT_ORDER.length;
+    return errors.sort((a, b) => rank(a) - rank(b));
+}
+
+/**
+ * Copies axe-core into the sandbox unless an earlier audit already did
+ */
+async function ensureAxeInSandbox(sandbox: SandboxHandle, workdir: string) {
+    try {
+        await sandbox.runCommand(`test -f ${AXE_FILE}`, { cwd: workdir });
+    } catch {
+        await sandbox.writeFiles([{ path: `${workdir}/${AXE_FILE}`, data: getAxeSource() }]);
+    }
+}
+
+/**
+ * Audits the running preview with axe-core in headless Chromium inside the sandbox.
+ * Violations are always warnings: accessibility never fails the build.
+ */
+export async function runAccessibilityCheck(
+    sandbox: SandboxHandle,
+    workdir: string,
+    mode = getAccessibilityCheckMode()
+): Promise<AccessibilityCheckResult> {
+    const startTime = Date.now();
+    if (mode === 'off') {
+        return { mode, available: false, violations: [], truncated: 0, durationMs: 0 };
+    }
+
+    await ensureAxeInSandbox(sandbox, workdir);
+    const output = await runBrowserScript<AxeViolation[]>(sandbox, ACCESSIBILITY_CHECK_SCRIPT, {
+        envs: { SETTLE_MS: String(SETTLE_MS), AXE_PATH: `${workdir}/${AXE_FILE}` },
+        timeoutMs: ACCESSIBILITY_CHECK_TIMEOUT_MS
+    });
+    if (!output) {
+        return { mode, available: false, violations: [], truncated: 0, durationMs: Date.now() - startTime };
+    }
+
+    const violations = axeViolationsToBuildErrors(output);
+    return {
+        mode,
+        available: true,
+        violations: violations.slice(0, MAX_VIOLATIONS),
+        truncated: Math.max(0, violations.length - MAX_VIOLATIONS),
+        durationMs: Date.now() - startTime
+    };
+}
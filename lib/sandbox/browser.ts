@@ -0,0 +1,72 @@
+import { SandboxCommandError, SandboxHandle } from './provider';
+
+export interface BrowserScriptOptions {
+    envs?: Record<string, string>;
+    timeoutMs?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 45 * 1000;
+
+/**
+ * Wraps a script body in a headless Chromium session. The body runs in an async function with
+ * `browser` and `process.env` in scope, and whatever it returns is printed as JSON.
+ * Playwright is installed globally in the sandbox image and found through NODE_PATH.
+ */
+function wrapScript(body: string): string {
+    return `
+let chromium;
+try {
+    ({ chromium } = require('playwright'));
+} catch {
+    console.log(JSON.stringify({ unavailable: true }));
+    process.exit(0);
+}
+
+(async () => {
+    const browser = await chromium.launch();
+    try {
+        const result = await (async (browser) => {
+${body}
+        })(browser);
+        console.log(JSON.stringify({ result }));
+    } finally {
+        await browser.close();
+    }
+})().catch(error => {
+    console.error(error);
+    process.exit(1);
+});
+`;
+}
+
+/**
+ * Runs a Playwright script against the sandbox's dev server with the preview URL in PREVIEW_URL.
+ * Resolves to null when the sandbox has no headless browser (e.g. a local process sandbox without Playwright).
+ */
+export async function runBrowserScript<T>(
+    sandbox: SandboxHandle,
+    body: string,
+    options: BrowserScriptOptions = {}
+): Promise<T | null> {
+    let stdout: string;
+    try {
+        const result = await sandbox.runCommand('node -e "$BROWSER_SCRIPT"', {
+            envs: {
+                ...options.envs,
+                BROWSER_SCRIPT: wrapScript(body),
+                PREVIEW_URL: `http://localhost:${sandbox.devServerPort}`
+            },
+            timeoutMs: options.timeoutMs ?? DEFAULT_TIMEOUT_MS
+        });
+        stdout = result.stdout;
+    } catch (error) {
+        if (error instanceof SandboxCommandError) {
+            throw new Error(`Browser script failed: ${error.result.stderr || error.result.stdout}`);
+        }
+        throw error;
+    }
+
+    // Node may print warnings before the result, so the JSON result is the last line
+    const output: { unavailable?: boolean; result?: T } = JSON.parse(stdout.trim().split('\n').pop() || '{}');
+    return output.unavailable ? null : output.result ?? null;
+}
@@ -0,0 +1,207 @@
+import { BuildError } from '../types';
+import { DependencyChange, DependencyPlan, InstalledPackages, isValidPackageName } from './packages';
+import { SandboxHandle } from './provider';
+
+/**
+ * Rules generated package.json files must follow. Package patterns are exact names or
+ * scopes ("@radix-ui/*" or "@radix-ui"). Template dependencies are always allowed.
+ */
+export interface DependencyPolicy {
+    // When non-empty, only these packages may be added
+    allow: string[];
+    deny: string[];
+    // Most dependencies a project may declare on top of the template's
+    maxPackages?: number;
+    // Install with --ignore-scripts and reject packages that declare install scripts
+    blockInstallScripts: boolean;
+    // Known-good versions that "latest" and "*" ranges are pinned to
+    pins: Record<string, string>;
+    // Reject "latest" and "*" ranges that can't be pinned
+    requirePinned: boolean;
+    // Ask the AI to resolve violations once before returning the result
+    feedback: boolean;
+}
+
+export interface DependencyPolicyResult {
+    plan: DependencyPlan;
+    violations: BuildError[];
+}
+
+interface HiddenLockfile {
+    packages?: Record<string, { hasInstallScript?: boolean }>;
+}
+
+const UNPINNED_SPECS = ['', '*', 'latest', 'x'];
+
+function parseList(value: string | undefined): string[] {
+    return (value || '').split(',').map(item => item.trim()).filter(Boolean);
+}
+
+/**
+ * Parses name@version pairs, e.g. "lodash@4.17.21,@tanstack/react-query@5.62.0"
+ */
+function parsePins(value: string | undefined): Record<string, string> {
+    const pins: Record<string, string> = {};
+    for (const pin of parseList(value)) {
+        const separator = pin.lastIndexOf('@');
+        if (separator > 0) {
+            pins[pin.slice(0, separator)] = pin.slice(separator + 1);
+        }
+    }
+    return pins;
+}
+
+/**
+ * Reads the dependency policy from DEPENDENCY_* environment variables. Nothing is restricted by default.
+ */
+export function getDependencyPolicy(): DependencyPolicy {
+    const maxPackages = parseInt(process.env.DEPENDENCY_MAX_PACKAGES || '', 10);
+
+    return {
+        allow: parseList(process.env.DEPENDENCY_ALLOWLIST),
+        deny: parseList(process.env.DEPENDENCY_DENYLIST),
+        maxPackages: Number.isFinite(maxPackages) && maxPackages >= 0 ? maxPackages : undefined,
+        blockInstallScripts: process.env.DEPENDENCY_BLOCK_INSTALL_SCRIPTS === 'true',
+        pins: parsePins(process.env.DEPENDENCY_PINS),
+        requirePinned: process.env.DEPENDENCY_REQUIRE_PINNED === 'true',
+        feedback: process.env.DEPENDENCY_POLICY_FEEDBACK === 'true'
+    };
+}
+
+function matchesPattern(name: string, pattern: string): boolean {
+    if (pattern.startsWith('@') && !pattern.slice(1).includes('/')) {
+        return name.startsWith(`${pattern}/`);
+    }
+    if (pattern.endsWith('/*')) {
+        return name.startsWith(pattern.slice(0, -1));
+    }
+    return name === pattern;
+}
+
+function violation(message: string): BuildError {
+    return { type: 'dependency', file: 'package.json', message, severity: 'error' };
+}
+
+/**
+ * Checks a dependency plan against the policy before anything is installed. Invalid, blocked and
+ * excess packages are dropped from the plan and the persisted package.json, and "latest"/"*" ranges
+ * are pinned to a known-good version (a configured pin, or whatever the sandbox already has).
+ */
+export function enforceDependencyPolicy(
+    plan: DependencyPlan,
+    templateNames: Set<string>,
+    installed: InstalledPackages,
+    policy = getDependencyPolicy()
+): DependencyPolicyResult {
+    let packageJson: Record<string, unknown>;
+    try {
+        packageJson = JSON.parse(plan.packageJson);
+    } catch {
+        return { plan, violations: [] };
+    }
+
+    const dependencies = { ...(packageJson.dependencies as Record<string, string> | undefined) };
+    const changes = new Map<string, DependencyChange>(plan.changes.map(change => [change.name, change]));
+    const violations: BuildError[] = [];
+
+    // Dropped packages are neither persisted nor installed
+    const drop = (name: string) => {
+        delete dependencies[name];
+        changes.delete(name);
+    };
+
+    for (const [name, spec] of Object.entries(dependencies)) {
+        // Names end up in npm commands, so anything npm wouldn't publish is never installed
+        if (!isValidPackageName(name)) {
+            violations.push(violation(`${JSON.stringify(name)} is not a valid npm package name`));
+            drop(name);
+            continue;
+        }
+        if (templateNames.has(name)) continue;
+
+        if (policy.deny.some(pattern => matchesPattern(name, pattern))) {
+            violations.push(violation(`${name} is blocked by the dependency policy`));
+            drop(name);
+            continue;
+        }
+        if (policy.allow.length > 0 && !policy.allow.some(pattern => matchesPattern(name, pattern))) {
+            violations.push(violation(`${name} is not on the dependency allowlist (allowed: ${policy.allow.join(', ')})`));
+            drop(name);
+            continue;
+        }
+
+        if (UNPINNED_SPECS.includes(spec.trim())) {
+            const pinned = policy.pins[name] ?? installed.get(name);
+            if (pinned) {
+                console.log(`📌 Pinning ${name}@${spec || '*'} to ${pinned}`);
+                dependencies[name] = pinned;
+                const change = changes.get(name);
+                if (change) changes.set(name, { ...change, to: pinned });
+            } else if (policy.requirePinned) {
+                violations.push(violation(`${name}@${spec || '*'} must use an explicit version range`));
+                drop(name);
+            }
+        }
+    }
+
+    if (policy.maxPackages !== undefined) {
+        const extra = Object.keys(dependencies).filter(name => !templateNames.has(name));
+        if (extra.length > policy.maxPackages) {
+            // Keep the packages the project already had and drop the newest additions
+            const added = extra.filter(name => changes.get(name)?.kind === 'added');
+            const excess = added.slice(Math.max(0, added.length - (extra.length - policy.maxPackages)));
+            excess.forEach(drop);
+            violations.push(violation(
+                `package.json declares ${extra.length} dependencies on top of the template, more than the ` +
+                `allowed ${policy.maxPackages}. Not installed: ${excess.join(', ')}`
+            ));
+        }
+    }
+
+    if (violations.length > 0) {
+        console.log('🚫 Dependency policy violations:', violations.map(error => error.message));
+    }
+
+    return {
+        plan: {
+            packageJson: JSON.stringify({ ...packageJson, dependencies }, null, 2) + '\n',
+            changes: plan.changes.filter(change => changes.has(change.name)).map(change => changes.get(change.name)!)
+        },
+        violations
+    };
+}
+
+/**
+ * Reports installed packages that declare install scripts. Run after installing with
+ * --ignore-scripts, so the scripts themselves never ran.
+ */
+export async function findInstallScriptViolations(
+    sandbox: SandboxHandle,
+    workdir: string,
+    names: string[]
+): Promise<BuildError[]> {
+    if (names.length === 0) return [];
+
+    let lockfile: HiddenLockfile;
+    try {
+        lockfile = JSON.parse(await sandbox.readFile(`${workdir}/node_modules/.package-lock.json`));
+    } catch (error) {
+        console.warn('Could not check packages for install scripts:', error);
+        return [];
+    }
+
+    return names
+        .filter(name => lockfile.packages?.[`node_modules/${name}`]?.hasInstallScript)
+        .map(name => violation(`${name} runs install scripts, which the dependency policy does not allow`));
+}
+
+/**
+ * Turns policy violations into an edit instruction for the AI
+ */
+export function formatDependencyPolicyInstruction(violations: BuildError[]): string {
+    return `Fix the following dependency policy violations:
+
+${violations.map(error => `- ${error.message}`).join('\n')}
+
+Remove or replace the affected packages in package.json and in the code that imports them, using only allowed packages or plain code.`;
+}
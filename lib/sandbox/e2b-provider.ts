@@ -0,0 +1,102 @@
+import { Sandbox, CommandExitError } from '@e2b/code-interpreter';
+import { ProcessResult, SandboxFile } from '../types';
+import { RunCommandOptions, SandboxCommandError, SandboxEntry, SandboxHandle, SandboxProvider } from './provider';
+
+function getApiKey(): string {
+    const apiKey = process.env.E2B_API_KEY;
+    if (!apiKey) {
+        throw new Error('E2B_API_KEY is not set');
+    }
+    return apiKey;
+}
+
+class E2BSandboxHandle implements SandboxHandle {
+    readonly provider = 'e2b';
+
+    constructor(private sandbox: Sandbox, readonly devServerPort: number) { }
+
+    get sandboxId() {
+        return this.sandbox.sandboxId;
+    }
+
+    async writeFiles(files: SandboxFile[]): Promise<void> {
+        await this.sandbox.files.write(files);
+    }
+
+    async removeFiles(paths: string[]): Promise<void> {
+        for (const path of paths) {
+            await this.sandbox.files.remove(path);
+        }
+    }
+
+    async listFiles(dirPath: string): Promise<SandboxEntry[]> {
+        const items = await this.sandbox.files.list(dirPath);
+        return items.map(item => ({
+            name: item.name,
+            path: item.path,
+            type: item.type === 'dir' ? 'dir' : 'file'
+        }));
+    }
+
+    async readFile(filePath: string): Promise<string> {
+        const content = await this.sandbox.files.read(filePath);
+        return content.toString();
+    }
+
+    async runCommand(cmd: string, options: RunCommandOptions = {}): Promise<ProcessResult> {
+        const { background, ...opts } = options;
+
+        if (background) {
+            const handle = await this.sandbox.commands.run(cmd, { ...opts, background: true });
+            return { stdout: handle.stdout, stderr: handle.stderr, exitCode: handle.exitCode ?? 0 };
+        }
+
+        try {
+            const result = await this.sandbox.commands.run(cmd, opts);
+            return { stdout: result.stdout, stderr: result.stderr, exitCode: result.exitCode };
+        } catch (error) {
+            if (error instanceof CommandExitError) {
+                throw new SandboxCommandError(cmd, {
+                    stdout: error.stdout,
+                    stderr: error.stderr,
+                    exitCode: error.exitCode
+                });
+            }
+            throw error;
+        }
+    }
+
+    getHost(port: number): string {
+        return this.sandbox.getHost(port);
+    }
+
+    getUrl(port: number): string {
+        return `https://${this.getHost(port)}`;
+    }
+
+    async setTimeout(timeoutMs: number): Promise<void> {
+        await this.sandbox.setTimeout(timeoutMs);
+    }
+
+    async isRunning(): Promise<boolean> {
+        return this.sandbox.isRunning();
+    }
+
+    async kill(): Promise<void> {
+        await this.sandbox.kill();
+    }
+}
+
+export const e2bProvider: SandboxProvider = {
+    name: 'e2b',
+
+    async create(template, { port }) {
+        const sandbox = await Sandbox.create(template, { apiKey: getApiKey() });
+        return new E2BSandboxHandle(sandbox, port);
+    },
+
+    async connect(sandboxId, { port }) {
+        const sandbox = await Sandbox.connect(sandboxId, { apiKey: getApiKey() });
+        return new E2BSandboxHandle(sandbox, port);
+    }
+};
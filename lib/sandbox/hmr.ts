@@ -0,0 +1,192 @@
+import WebSocket from 'ws';
+import { BuildError } from '../types';
+import { SandboxHandle, shellQuote } from './provider';
+
+// Error payload Vite sends over HMR and embeds in its error overlay page
+export interface ViteErrorPayload {
+    message: string;
+    stack?: string;
+    id?: string;
+    frame?: string;
+    plugin?: string;
+    loc?: {
+        file?: string;
+        line: number;
+        column: number;
+    };
+}
+
+type HmrPayload =
+    | { type: 'connected' }
+    | { type: 'update'; updates: Array<{ type: string; path: string; acceptedPath: string }> }
+    | { type: 'full-reload'; path?: string }
+    | { type: 'error'; err: ViteErrorPayload }
+    | { type: string };
+
+export interface HmrUpdateResult {
+    applied: boolean;
+    updatedPaths: string[];
+    errors: ViteErrorPayload[];
+}
+
+const MODULE_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.css', '.vue', '.svelte'];
+
+/**
+ * Converts a Vite error overlay payload into a BuildError with a path relative to the project directory
+ */
+export function viteErrorToBuildError(error: ViteErrorPayload, workdir: string): BuildError {
+    const file = (error.loc?.file || error.id)?.replace(`${workdir}/`, '').replace(/\?.*$/, '');
+    const message = [
+        error.plugin ? `[plugin:${error.plugin}] ${error.message}` : error.message,
+        error.frame
+    ].filter(Boolean).join('\n');
+
+    return {
+        type: 'build',
+        message,
+        file,
+        line: error.loc?.line,
+        column: error.loc?.column
+    };
+}
+
+/**
+ * Vite (6.0.9+) only accepts HMR connections that carry the token embedded in /@vite/client
+ */
+async function fetchHmrToken(previewUrl: string, timeoutMs: number): Promise<string | null> {
+    try {
+        const response = await fetch(`${previewUrl}/@vite/client`, { signal: AbortSignal.timeout(timeoutMs) });
+        const source = await response.text();
+        return source.match(/const wsToken = "([^"]+)"/)?.[1] ?? null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Listens on a dev server's HMR channel for the events caused by a file write
+ */
+export class HmrListener {
+    private payloads: HmrPayload[] = [];
+    private waiters = new Set<() => void>();
+
+    private constructor(private socket: WebSocket) {
+        socket.on('message', (data) => {
+            try {
+                this.payloads.push(JSON.parse(data.toString()));
+                this.waiters.forEach(notify => notify());
+            } catch {
+                // Ignore non-JSON frames (pings)
+            }
+        });
+    }
+
+    /**
+     * Opens the HMR websocket, or returns null if the dev server is not reachable
+     */
+    static async connect(previewUrl: string, timeoutMs = 3000): Promise<HmrListener | null> {
+        const token = await fetchHmrToken(previewUrl, timeoutMs);
+        const wsUrl = previewUrl.replace(/^http/, 'ws') + (token ? `/?token=${token}` : '/');
+
+        return new Promise((resolve) => {
+            const socket = new WebSocket(wsUrl, 'vite-hmr', { handshakeTimeout: timeoutMs });
+            socket.once('open', () => resolve(new HmrListener(socket)));
+            socket.once('error', (error) => {
+                console.log('HMR channel unavailable:', error.message);
+                resolve(null);
+            });
+        });
+    }
+
+    /**
+     * Waits until Vite reports an update, reload or error touching the given paths (relative to the project directory)
+     */
+    async waitForUpdate(paths: string[], timeoutMs = 5000): Promise<HmrUpdateResult> {
+        const modulePaths = paths
+            .filter(path => MODULE_EXTENSIONS.some(extension => path.endsWith(extension)))
+            .map(path => `/${path}`);
+
+        if (modulePaths.length === 0) {
+            return { applied: true, updatedPaths: [], errors: [] };
+        }
+
+        const evaluate = (): HmrUpdateResult | null => {
+            const errors: ViteErrorPayload[] = [];
+            const updatedPaths: string[] = [];
+            let reloaded = false;
+
+            for (const payload of this.payloads) {
+                if (payload.type === 'error' && 'err' in payload) {
+                    errors.push(payload.err);
+                } else if (payload.type === 'update' && 'updates' in payload) {
+                    updatedPaths.push(...payload.updates.map(update => update.path));
+                } else if (payload.type === 'full-reload') {
+                    reloaded = true;
+                }
+            }
+
+            if (errors.length > 0) {
+                return { applied: false, updatedPaths, errors };
+            }
+            if (reloaded || modulePaths.some(path => updatedPaths.includes(path))) {
+                return { applied: true, updatedPaths, errors };
+            }
+            return null;
+        };
+
+        return new Promise((resolve) => {
+            const finish = (result: HmrUpdateResult) => {
+                clearTimeout(timer);
+                this.waiters.delete(check);
+                resolve(result);
+            };
+            const check = () => {
+                const result = evaluate();
+                if (result) finish(result);
+            };
+            // Vite only sends updates for modules a browser has loaded, so a timeout is not a failure by itself
+            const timer = setTimeout(() => finish({ applied: false, updatedPaths: [], errors: [] }), timeoutMs);
+
+            this.waiters.add(check);
+            check();
+        });
+    }
+
+    close() {
+        this.socket.close();
+    }
+}
+
+/**
+ * Requests each changed module from the dev server inside the sandbox so Vite transforms it,
+ * and returns the error overlay payloads for modules that fail to compile
+ */
+export async function checkModuleTransforms(sandbox: SandboxHandle, workdir: string, paths: string[]): Promise<ViteErrorPayload[]> {
+    const modulePaths = paths.filter(path => MODULE_EXTENSIONS.some(extension => path.endsWith(extension)));
+    const errors: ViteErrorPayload[] = [];
+
+    for (const path of modulePaths) {
+        // Paths come from generated code, so encode them for the URL and quote the URL for the shell
+        const url = `http://localhost:${sandbox.devServerPort}/${path.split('/').map(encodeURIComponent).join('/')}`;
+        try {
+            const result = await sandbox.runCommand(
+                `curl -s -w "\\n%{http_code}" ${shellQuote(url)}`,
+                { timeoutMs: 10000 }
+            );
+            const statusCode = result.stdout.substring(result.stdout.lastIndexOf('\n') + 1);
+            if (statusCode !== '500') continue;
+
+            // Vite's error page embeds the overlay payload as `const error = {...}`
+            const match = result.stdout.match(/const error = (.+)\n/);
+            if (match) {
+                errors.push(JSON.parse(match[1]));
+            } else {
+                errors.push({ message: `Failed to transform ${path}`, id: `${workdir}/${path}` });
+            }
+        } catch (error) {
+            console.log(`Transform check for ${path} failed:`, error);
+        }
+    }
+
+    return errors;
+}
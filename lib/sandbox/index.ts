@@ -0,0 +1,22 @@
+import { e2bProvider } from './e2b-provider';
+import { localProvider } from './local-provider';
+import { SandboxProvider } from './provider';
+
+export * from './provider';
+
+const providers: Record<string, SandboxProvider> = {
+    e2b: e2bProvider,
+    local: localProvider,
+};
+
+/**
+ * Returns the sandbox provider selected by SANDBOX_PROVIDER (defaults to E2B)
+ */
+export function getSandboxProvider(): SandboxProvider {
+    const name = process.env.SANDBOX_PROVIDER || 'e2b';
+    const provider = providers[name];
+    if (!provider) {
+        throw new Error(`Unknown SANDBOX_PROVIDER "${name}". Expected one of: ${Object.keys(providers).join(', ')}`);
+    }
+    return provider;
+}
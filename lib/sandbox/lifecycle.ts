@@ -0,0 +1,199 @@
+import { getSandboxProvider } from './index';
+import { SandboxHandle } from './provider';
+import { clearSyncManifest } from './sync';
+import { SandboxLogStream } from './logs';
+import { clearInstalledPackages, clearTemplateDependencies } from './packages';
+
+export interface SandboxRecord {
+    sandboxId: string;
+    sessionId?: string;
+    sandbox: SandboxHandle;
+    createdAt: number;
+    lastActivity: number;
+}
+
+const DEFAULT_IDLE_TTL_MS = 10 * 60 * 1000;
+const REAPER_INTERVAL_MS = 60 * 1000;
+
+// Global registry - use globalThis to survive module reloads in development
+declare global {
+    var __sandboxRegistry: Map<string, SandboxRecord> | undefined;
+    var __sandboxReaper: NodeJS.Timeout | undefined;
+}
+
+const registry = globalThis.__sandboxRegistry || (globalThis.__sandboxRegistry = new Map<string, SandboxRecord>());
+
+/**
+ * Thrown when a sandbox has been killed, reaped or timed out on the provider
+ */
+export class SandboxExpiredError extends Error {
+    readonly sandboxId: string;
+
+    constructor(sandboxId: string, cause?: unknown) {
+        super(`Sandbox ${sandboxId} has expired`, { cause });
+        this.name = 'SandboxExpiredError';
+        this.sandboxId = sandboxId;
+    }
+}
+
+/**
+ * Thrown when a session asks for a sandbox that belongs to another session (or to none this server tracks)
+ */
+export class SandboxAccessError extends Error {
+    readonly sandboxId: string;
+
+    constructor(sandboxId: string) {
+        super(`Sandbox ${sandboxId} does not belong to this session`);
+        this.name = 'SandboxAccessError';
+        this.sandboxId = sandboxId;
+    }
+}
+
+/**
+ * How long a sandbox may stay idle before it is reaped (SANDBOX_IDLE_TTL_MS)
+ */
+export function getSandboxIdleTtl(): number {
+    const ttl = parseInt(process.env.SANDBOX_IDLE_TTL_MS || '', 10);
+    return Number.isNaN(ttl) ? DEFAULT_IDLE_TTL_MS : ttl;
+}
+
+function startReaper() {
+    if (globalThis.__sandboxReaper) return;
+
+    globalThis.__sandboxReaper = setInterval(() => {
+        reapIdleSandboxes().catch(error => console.error('Sandbox reaper failed:', error));
+    }, REAPER_INTERVAL_MS);
+    globalThis.__sandboxReaper.unref?.();
+}
+
+/**
+ * Starts tracking a sandbox and aligns its provider timeout with the idle TTL
+ */
+export async function registerSandbox(sandbox: SandboxHandle, sessionId?: string): Promise<SandboxRecord> {
+    const now = Date.now();
+    const record: SandboxRecord = {
+        sandboxId: sandbox.sandboxId,
+        sessionId,
+        sandbox,
+        createdAt: registry.get(sandbox.sandboxId)?.createdAt ?? now,
+        lastActivity: now
+    };
+    registry.set(sandbox.sandboxId, record);
+    startReaper();
+
+    try {
+        await sandbox.setTimeout(getSandboxIdleTtl());
+    } catch (error) {
+        console.warn(`Failed to set timeout for sandbox ${sandbox.sandboxId}:`, error);
+    }
+
+    return record;
+}
+
+/**
+ * Returns the live handle of a tracked sandbox. Sandboxes this server doesn't track (e.g. from
+ * before a restart) are never connected to, as they can't be attributed to a session.
+ */
+async function getSandbox(sandboxId: string): Promise<SandboxHandle> {
+    const record = registry.get(sandboxId);
+    if (!record) {
+        throw new SandboxAccessError(sandboxId);
+    }
+
+    // The provider may have timed the sandbox out behind our back
+    if (!await record.sandbox.isRunning().catch(() => false)) {
+        registry.delete(sandboxId);
+        clearSyncManifest(sandboxId);
+        clearInstalledPackages(sandboxId);
+        clearTemplateDependencies(sandboxId);
+        throw new SandboxExpiredError(sandboxId);
+    }
+    record.lastActivity = Date.now();
+    return record.sandbox;
+}
+
+/**
+ * Rejects sessions that don't own the sandbox. Only tracked sandboxes can be attributed
+ * to a session, so sandboxes from before a server restart are rejected too.
+ */
+export function assertSandboxOwner(sandboxId: string, sessionId: string): void {
+    const owner = registry.get(sandboxId)?.sessionId;
+    if (!owner || owner !== sessionId) {
+        throw new SandboxAccessError(sandboxId);
+    }
+}
+
+/**
+ * Returns the session that created a tracked sandbox
+ */
+export function getSandboxOwner(sandboxId: string): string | undefined {
+    return registry.get(sandboxId)?.sessionId;
+}
+
+/**
+ * Returns a live handle for a sandbox owned by the session
+ */
+export async function getSessionSandbox(sandboxId: string, sessionId: string): Promise<SandboxHandle> {
+    assertSandboxOwner(sandboxId, sessionId);
+    return getSandbox(sandboxId);
+}
+
+/**
+ * Marks a sandbox owned by the session as active and extends its provider timeout.
+ * Returns false if the sandbox is no longer running or belongs to another session.
+ */
+export async function keepAlive(sandboxId: string, sessionId: string): Promise<boolean> {
+    try {
+        const sandbox = await getSessionSandbox(sandboxId, sessionId);
+        if (!await sandbox.isRunning()) {
+            registry.delete(sandboxId);
+            return false;
+        }
+        await sandbox.setTimeout(getSandboxIdleTtl());
+        return true;
+    } catch (error) {
+        console.error(`Keep-alive failed for sandbox ${sandboxId}:`, error);
+        return false;
+    }
+}
+
+export async function killSandbox(sandboxId: string, options: { port: number }): Promise<void> {
+    const record = registry.get(sandboxId);
+    registry.delete(sandboxId);
+    clearSyncManifest(sandboxId);
+    clearInstalledPackages(sandboxId);
+    clearTemplateDependencies(sandboxId);
+    SandboxLogStream.clear(sandboxId);
+
+    try {
+        if (record) {
+            await record.sandbox.kill();
+        } else {
+            const sandbox = await getSandboxProvider().connect(sandboxId, { port: options.port });
+            await sandbox.kill();
+        }
+        console.log(`🗑️ Killed sandbox ${sandboxId}`);
+    } catch (error) {
+        // Already gone
+        console.log(`Sandbox ${sandboxId} could not be killed (probably already expired):`, error);
+    }
+}
+
+/**
+ * Kills every tracked sandbox that has been idle longer than the TTL
+ */
+export async function reapIdleSandboxes(): Promise<string[]> {
+    const ttl = getSandboxIdleTtl();
+    const now = Date.now();
+    const idle = Array.from(registry.values()).filter(record => now - record.lastActivity > ttl);
+
+    await Promise.all(idle.map(record => killSandbox(record.sandboxId, { port: record.sandbox.devServerPort })));
+    if (idle.length > 0) {
+        console.log(`🧹 Reaped ${idle.length} idle sandbox(es)`);
+    }
+    return idle.map(record => record.sandboxId);
+}
+
+export function getSessionSandboxes(sessionId: string): SandboxRecord[] {
+    return Array.from(registry.values()).filter(record => record.sessionId === sessionId);
+}
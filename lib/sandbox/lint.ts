@@ -0,0 +1,102 @@
+import { BuildError } from '../types';
+import { SandboxCommandError, SandboxHandle } from './provider';
+
+/**
+ * advisory: findings are reported as warnings
+ * off: the stage is skipped
+ */
+export type LintMode = 'advisory' | 'off';
+
+export interface LintResult {
+    mode: LintMode;
+    // False when the template doesn't install ESLint
+    available: boolean;
+    findings: BuildError[];
+    // Findings dropped because of MAX_FINDINGS
+    truncated: number;
+    durationMs: number;
+}
+
+// Shape of each entry in `eslint --format json` output
+interface ESLintFileResult {
+    filePath: string;
+    messages: Array<{
+        ruleId: string | null;
+        severity: 1 | 2;
+        message: string;
+        line?: number;
+        column?: number;
+    }>;
+}
+
+const LINT_TIMEOUT_MS = 60 * 1000;
+// Relative to the project
+const ESLINT_BIN = 'node_modules/.bin/eslint';
+// Keep the list (and any fix instruction built from it) readable
+const MAX_FINDINGS = 50;
+
+/**
+ * Reads the lint mode from LINT_MODE (defaults to advisory)
+ */
+export function getLintMode(): LintMode {
+    return process.env.LINT_MODE === 'off' ? 'off' : 'advisory';
+}
+
+/**
+ * Maps ESLint JSON output to lint diagnostics with paths relative to the project directory
+ */
+export function parseESLintResults(output: string, workdir: string): BuildError[] {
+    const results: ESLintFileResult[] = JSON.parse(output);
+
+    return results.flatMap(result => result.messages.map((message): BuildError => ({
+        type: 'lint',
+        message: message.message,
+        file: result.filePath.replace(`${workdir}/`, ''),
+        line: message.line,
+        column: message.column,
+        code: message.ruleId ?? undefined,
+        severity: 'warning'
+    })));
+}
+
+/**
+ * Runs the template's ESLint config over the project in workdir.
+ * Findings are always warnings: lint never fails the build.
+ */
+export async function runLint(sandbox: SandboxHandle, workdir: string, mode = getLintMode()): Promise<LintResult> {
+    const startTime = Date.now();
+    if (mode === 'off') {
+        return { mode, available: false, findings: [], truncated: 0, durationMs: 0 };
+    }
+
+    // npx would fail without output, which is indistinguishable from ESLint crashing
+    try {
+        await sandbox.runCommand(`test -x ${ESLINT_BIN}`, { cwd: workdir });
+    } catch {
+        return { mode, available: false, findings: [], truncated: 0, durationMs: Date.now() - startTime };
+    }
+
+    let output: string;
+    try {
+        const result = await sandbox.runCommand('npx --no-install eslint . --format json', {
+            cwd: workdir,
+            timeoutMs: LINT_TIMEOUT_MS
+        });
+        output = result.stdout;
+    } catch (error) {
+        // ESLint exits with 1 when a rule reports an error-level finding
+        if (!(error instanceof SandboxCommandError) || error.result.exitCode !== 1) {
+            throw error;
+        }
+        output = error.result.stdout;
+    }
+
+    const findings = parseESLintResults(output, workdir);
+    return {
+        mode,
+        available: true,
+        findings: findings.slice(0, MAX_FINDINGS),
+        truncated: Math.max(0, findings.length - MAX_FINDINGS),
+        durationMs: Date.now() - startTime
+    };
+}
@@ -0,0 +1,455 @@
+import { spawn, ChildProcess } from 'child_process';
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import { createServer } from 'net';
+import { tmpdir } from 'os';
+import { basename, dirname, join, resolve as resolvePath, sep } from 'path';
+import { ProcessResult, SandboxFile } from '../types';
+import { RunCommandOptions, SandboxCommandError, SandboxEntry, SandboxHandle, SandboxProvider } from './provider';
+
+const DEFAULT_COMMAND_TIMEOUT_MS = 60_000;
+// Sandbox IDs as each mode generates them (connect and kill get IDs from clients)
+const PROCESS_SANDBOX_ID = /^local-[0-9a-f]{8}$/;
+const DOCKER_SANDBOX_ID = /^ui-builder-[0-9a-f]{8}$/;
+
+// Background processes per sandbox - use globalThis to survive module reloads in development
+declare global {
+    var __localSandboxProcesses: Map<string, Set<ChildProcess>> | undefined;
+}
+
+const backgroundProcesses = globalThis.__localSandboxProcesses || (globalThis.__localSandboxProcesses = new Map<string, Set<ChildProcess>>());
+
+type ExecOptions = {
+    cwd?: string;
+    env?: NodeJS.ProcessEnv;
+    input?: string;
+    timeoutMs?: number;
+    detached?: boolean;
+    onStdout?: (data: string) => void;
+    onStderr?: (data: string) => void;
+};
+
+/**
+ * Spawns a process and collects its output. Never rejects on a non-zero exit code.
+ */
+function exec(file: string, args: string[], options: ExecOptions = {}): { child: ChildProcess; done: Promise<ProcessResult> } {
+    const child = spawn(file, args, {
+        cwd: options.cwd,
+        env: options.env,
+        detached: options.detached,
+        stdio: ['pipe', 'pipe', 'pipe']
+    });
+
+    let stdout = '';
+    let stderr = '';
+
+    child.stdout?.on('data', (chunk: Buffer) => {
+        const data = chunk.toString();
+        stdout += data;
+        options.onStdout?.(data);
+    });
+    child.stderr?.on('data', (chunk: Buffer) => {
+        const data = chunk.toString();
+        stderr += data;
+        options.onStderr?.(data);
+    });
+
+    if (options.input !== undefined) {
+        child.stdin?.end(options.input);
+    } else {
+        child.stdin?.end();
+    }
+
+    const done = new Promise<ProcessResult>((resolve, reject) => {
+        const timer = options.timeoutMs
+            ? setTimeout(() => child.kill('SIGKILL'), options.timeoutMs)
+            : undefined;
+
+        child.on('error', (error) => {
+            if (timer) clearTimeout(timer);
+            reject(error);
+        });
+        child.on('close', (code, signal) => {
+            if (timer) clearTimeout(timer);
+            resolve({ stdout, stderr, exitCode: code ?? (signal ? 124 : 1) });
+        });
+    });
+
+    return { child, done };
+}
+
+function trackBackgroundProcess(sandboxId: string, child: ChildProcess) {
+    if (!backgroundProcesses.has(sandboxId)) {
+        backgroundProcesses.set(sandboxId, new Set());
+    }
+    const processes = backgroundProcesses.get(sandboxId)!;
+    processes.add(child);
+    child.on('close', () => processes.delete(child));
+}
+
+function killBackgroundProcesses(sandboxId: string) {
+    const processes = backgroundProcesses.get(sandboxId);
+    if (!processes) return;
+
+    for (const child of processes) {
+        try {
+            // Detached children lead their own process group, so kill the whole group
+            if (child.pid) process.kill(-child.pid, 'SIGTERM');
+        } catch {
+            child.kill('SIGTERM');
+        }
+    }
+    backgroundProcesses.delete(sandboxId);
+}
+
+async function findFreePort(): Promise<number> {
+    return new Promise((resolve, reject) => {
+        const server = createServer();
+        server.unref();
+        server.on('error', reject);
+        server.listen(0, '127.0.0.1', () => {
+            const address = server.address();
+            server.close(() => {
+                if (address && typeof address === 'object') {
+                    resolve(address.port);
+                } else {
+                    reject(new Error('Could not allocate a free port'));
+                }
+            });
+        });
+    });
+}
+
+/**
+ * Sandbox backed by a plain directory on the host. The directory acts as the
+ * sandbox filesystem root, so /app inside the sandbox maps to <root>/app.
+ * Commands run in the project directory (workdir) unless told otherwise.
+ */
+class ProcessSandboxHandle implements SandboxHandle {
+    readonly provider = 'local';
+
+    constructor(readonly sandboxId: string, private root: string, readonly devServerPort: number, private workdir: string) { }
+
+    /**
+     * Maps a sandbox path onto the host. Paths come from generated code, so anything
+     * that escapes the sandbox root (e.g. via ../) is rejected.
+     */
+    private resolve(sandboxPath: string): string {
+        const target = join(this.root, sandboxPath);
+        if (target !== this.root && !target.startsWith(this.root + sep)) {
+            throw new Error(`Path ${sandboxPath} is outside sandbox ${this.sandboxId}`);
+        }
+        return target;
+    }
+
+    async writeFiles(files: SandboxFile[]): Promise<void> {
+        for (const file of files) {
+            const target = this.resolve(file.path);
+            await fs.mkdir(dirname(target), { recursive: true });
+            await fs.writeFile(target, file.data);
+        }
+    }
+
+    async removeFiles(paths: string[]): Promise<void> {
+        for (const path of paths) {
+            await fs.rm(this.resolve(path), { force: true });
+        }
+    }
+
+    async listFiles(dirPath: string): Promise<SandboxEntry[]> {
+        const entries = await fs.readdir(this.resolve(dirPath), { withFileTypes: true });
+        return entries.map(entry => ({
+            name: entry.name,
+            path: `${dirPath.replace(/\/$/, '')}/${entry.name}`,
+            type: entry.isDirectory() ? 'dir' : 'file'
+        }));
+    }
+
+    async readFile(filePath: string): Promise<string> {
+        return fs.readFile(this.resolve(filePath), 'utf8');
+    }
+
+    async runCommand(cmd: string, options: RunCommandOptions = {}): Promise<ProcessResult> {
+        const { child, done } = exec('bash', ['-c', cmd], {
+            cwd: this.resolve(options.cwd ?? this.workdir),
+            env: { ...process.env, ...options.envs },
+            timeoutMs: options.background ? undefined : options.timeoutMs ?? DEFAULT_COMMAND_TIMEOUT_MS,
+            detached: options.background,
+            onStdout: options.onStdout,
+            onStderr: options.onStderr
+        });
+
+        if (options.background) {
+            trackBackgroundProcess(this.sandboxId, child);
+            done.catch(error => console.error(`Background command failed in ${this.sandboxId}:`, error));
+            return { stdout: '', stderr: '', exitCode: 0 };
+        }
+
+        const result = await done;
+        if (result.exitCode !== 0) {
+            throw new SandboxCommandError(cmd, result);
+        }
+        return result;
+    }
+
+    getHost(port: number): string {
+        return `localhost:${port}`;
+    }
+
+    getUrl(port: number): string {
+        return `http://${this.getHost(port)}`;
+    }
+
+    async setTimeout(): Promise<void> {
+        // Local sandboxes have no platform timeout; idle ones are removed by the lifecycle reaper
+    }
+
+    async isRunning(): Promise<boolean> {
+        try {
+            await fs.access(join(this.root, '.sandbox.json'));
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    async kill(): Promise<void> {
+        killBackgroundProcesses(this.sandboxId);
+        await fs.rm(getSandboxRoot(this.sandboxId), { recursive: true, force: true });
+    }
+}
+
+/**
+ * Sandbox backed by a Docker container built from templates/<template>/e2b.Dockerfile.
+ * The sandbox ID is the container name.
+ */
+class DockerSandboxHandle implements SandboxHandle {
+    readonly provider = 'local';
+
+    constructor(readonly sandboxId: string, readonly devServerPort: number, private hostPort: number) { }
+
+    private async docker(args: string[], options: ExecOptions = {}): Promise<ProcessResult> {
+        const result = await exec('docker', args, options).done;
+        if (result.exitCode !== 0) {
+            throw new SandboxCommandError(`docker ${args.join(' ')}`, result);
+        }
+        return result;
+    }
+
+    async writeFiles(files: SandboxFile[]): Promise<void> {
+        for (const file of files) {
+            await this.docker(
+                ['exec', '-i', this.sandboxId, 'sh', '-c', 'mkdir -p "$(dirname "$1")" && cat > "$1"', 'sh', file.path],
+                { input: file.data }
+            );
+        }
+    }
+
+    async removeFiles(paths: string[]): Promise<void> {
+        if (paths.length === 0) return;
+        await this.docker(['exec', this.sandboxId, 'rm', '-f', '--', ...paths]);
+    }
+
+    async listFiles(dirPath: string): Promise<SandboxEntry[]> {
+        const result = await this.docker(['exec', this.sandboxId, 'find', dirPath, '-mindepth', '1', '-maxdepth', '1', '-printf', '%y\t%p\n']);
+        return result.stdout
+            .split('\n')
+            .filter(Boolean)
+            .map(line => {
+                const [kind, path] = line.split('\t');
+                return {
+                    name: path.substring(path.lastIndexOf('/') + 1),
+                    path,
+                    type: kind === 'd' ? 'dir' : 'file'
+                };
+            });
+    }
+
+    async readFile(filePath: string): Promise<string> {
+        const result = await this.docker(['exec', this.sandboxId, 'cat', filePath]);
+        return result.stdout;
+    }
+
+    async runCommand(cmd: string, options: RunCommandOptions = {}): Promise<ProcessResult> {
+        // Without a cwd, commands run in the image's WORKDIR
+        const args = ['exec', ...(options.cwd ? ['-w', options.cwd] : [])];
+        for (const [key, value] of Object.entries(options.envs ?? {})) {
+            args.push('-e', `${key}=${value}`);
+        }
+        args.push(this.sandboxId, 'bash', '-c', cmd);
+
+        const { child, done } = exec('docker', args, {
+            timeoutMs: options.background ? undefined : options.timeoutMs ?? DEFAULT_COMMAND_TIMEOUT_MS,
+            onStdout: options.onStdout,
+            onStderr: options.onStderr
+        });
+
+        if (options.background) {
+            trackBackgroundProcess(this.sandboxId, child);
+            done.catch(error => console.error(`Background command failed in ${this.sandboxId}:`, error));
+            return { stdout: '', stderr: '', exitCode: 0 };
+        }
+
+        const result = await done;
+        if (result.exitCode !== 0) {
+            throw new SandboxCommandError(cmd, result);
+        }
+        return result;
+    }
+
+    getHost(port: number): string {
+        // Only the dev server port is published to the host
+        return `localhost:${port === this.devServerPort ? this.hostPort : port}`;
+    }
+
+    getUrl(port: number): string {
+        return `http://${this.getHost(port)}`;
+    }
+
+    async setTimeout(): Promise<void> {
+        // Local sandboxes have no platform timeout; idle ones are removed by the lifecycle reaper
+    }
+
+    async isRunning(): Promise<boolean> {
+        const result = await exec('docker', ['inspect', '-f', '{{.State.Running}}', this.sandboxId]).done;
+        return result.exitCode === 0 && result.stdout.trim() === 'true';
+    }
+
+    async kill(): Promise<void> {
+        killBackgroundProcesses(this.sandboxId);
+        await exec('docker', ['rm', '-f', this.sandboxId]).done;
+    }
+}
+
+function getSandboxesRoot(): string {
+    return process.env.LOCAL_SANDBOX_ROOT || join(tmpdir(), 'ui-builder-sandboxes');
+}
+
+/**
+ * Maps a process-mode sandbox ID onto its directory, rejecting IDs that could point anywhere else
+ */
+function getSandboxRoot(sandboxId: string): string {
+    const sandboxesRoot = resolvePath(getSandboxesRoot());
+    const root = join(sandboxesRoot, sandboxId);
+    if (!PROCESS_SANDBOX_ID.test(sandboxId) || dirname(root) !== sandboxesRoot) {
+        throw new Error(`Invalid sandbox ID ${sandboxId}`);
+    }
+    return root;
+}
+
+async function readPublishedPort(containerName: string, port: number): Promise<number> {
+    const result = await exec('docker', ['port', containerName, `${port}/tcp`]).done;
+    // Output looks like "127.0.0.1:49153"
+    const match = result.stdout.trim().split('\n')[0]?.match(/:(\d+)$/);
+    if (result.exitCode !== 0 || !match) {
+        throw new Error(`Port ${port} is not published for sandbox ${containerName}`);
+    }
+    return parseInt(match[1], 10);
+}
+
+const processMode = {
+    async create(template: string, workdir: string): Promise<SandboxHandle> {
+        const templateDir = process.env.LOCAL_SANDBOX_TEMPLATE_DIR;
+        if (!templateDir) {
+            throw new Error(`LOCAL_SANDBOX_TEMPLATE_DIR is not set (point it at a prepared copy of the ${template} project)`);
+        }
+
+        const sandboxId = `local-${randomUUID().slice(0, 8)}`;
+        const root = getSandboxRoot(sandboxId);
+        const appDir = join(root, workdir);
+        const port = await findFreePort();
+
+        // Copy the template sources, then its installed node_modules. Each sandbox gets its own copy
+        // (not a link) because packages installed or removed in one must not change the template.
+        await fs.mkdir(root, { recursive: true });
+        await fs.cp(templateDir, appDir, {
+            recursive: true,
+            filter: (source) => basename(source) !== 'node_modules'
+        });
+        try {
+            await fs.cp(join(templateDir, 'node_modules'), join(appDir, 'node_modules'), {
+                recursive: true,
+                verbatimSymlinks: true
+            });
+        } catch (error) {
+            console.warn(`Template at ${templateDir} has no node_modules to copy:`, error);
+        }
+
+        await fs.writeFile(join(root, '.sandbox.json'), JSON.stringify({ template, port, workdir }));
+        console.log(`Local sandbox created at ${root}`);
+
+        return new ProcessSandboxHandle(sandboxId, root, port, workdir);
+    },
+
+    async connect(sandboxId: string): Promise<SandboxHandle> {
+        const root = getSandboxRoot(sandboxId);
+        try {
+            const meta = JSON.parse(await fs.readFile(join(root, '.sandbox.json'), 'utf8'));
+            return new ProcessSandboxHandle(sandboxId, root, meta.port, meta.workdir);
+        } catch {
+            throw new Error(`Sandbox ${sandboxId} not found`);
+        }
+    }
+};
+
+const dockerMode = {
+    async create(template: string, port: number): Promise<SandboxHandle> {
+        const image = process.env.LOCAL_SANDBOX_IMAGE || template;
+        const sandboxId = `ui-builder-${randomUUID().slice(0, 8)}`;
+
+        // A registry mirror on the host is reachable as host.docker.internal, and a seeded npm cache is mounted at /npm-cache.
+        // The image's entrypoint would start a dev server of its own, so the container just idles
+        // until the pipeline starts the template's dev command like in every other sandbox.
+        const npmCache = process.env.LOCAL_SANDBOX_NPM_CACHE;
+        const result = await exec('docker', [
+            'run', '-d',
+            '--name', sandboxId,
+            '--label', 'ui-builder.sandbox=true',
+            '-p', `127.0.0.1::${port}`,
+            '--add-host', 'host.docker.internal:host-gateway',
+            ...(npmCache ? ['-v', `${npmCache}:/npm-cache`] : []),
+            '--entrypoint', 'sleep',
+            image,
+            'infinity'
+        ]).done;
+        if (result.exitCode !== 0) {
+            throw new Error(`Failed to start ${image} container: ${result.stderr}`);
+        }
+        console.log(`Docker sandbox created: ${sandboxId}`);
+
+        return new DockerSandboxHandle(sandboxId, port, await readPublishedPort(sandboxId, port));
+    },
+
+    async connect(sandboxId: string, port: number): Promise<SandboxHandle> {
+        // Anything else could name an unrelated container (or a docker option)
+        if (!DOCKER_SANDBOX_ID.test(sandboxId)) {
+            throw new Error(`Invalid sandbox ID ${sandboxId}`);
+        }
+        const result = await exec('docker', ['inspect', '-f', '{{.State.Running}}', sandboxId]).done;
+        if (result.exitCode !== 0 || result.stdout.trim() !== 'true') {
+            throw new Error(`Sandbox ${sandboxId} not found`);
+        }
+        return new DockerSandboxHandle(sandboxId, port, await readPublishedPort(sandboxId, port));
+    }
+};
+
+/**
+ * Runs sandboxes on this machine so the pipeline works without E2B.
+ * LOCAL_SANDBOX_MODE=docker (default) runs the template image, LOCAL_SANDBOX_MODE=process
+ * copies LOCAL_SANDBOX_TEMPLATE_DIR into a temp directory and runs commands on the host.
+ */
+export const localProvider: SandboxProvider = {
+    name: 'local',
+
+    async create(template, { port, workdir }) {
+        return process.env.LOCAL_SANDBOX_MODE === 'process'
+            ? processMode.create(template, workdir)
+            : dockerMode.create(template, port);
+    },
+
+    async connect(sandboxId, { port }) {
+        return process.env.LOCAL_SANDBOX_MODE === 'process'
+            ? processMode.connect(sandboxId)
+            : dockerMode.connect(sandboxId, port);
+    }
+};
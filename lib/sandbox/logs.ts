@@ -0,0 +1,86 @@
+export interface SandboxLogEntry {
+    id: number;
+    timestamp: number;
+    source: 'dev-server' | 'install' | 'build' | 'test';
+    stream: 'stdout' | 'stderr';
+    text: string;
+}
+
+const MAX_ENTRIES_PER_SANDBOX = 1000;
+
+// Global stores - use globalThis to survive module reloads in development
+declare global {
+    var __sandboxLogStore: Map<string, SandboxLogEntry[]> | undefined;
+    var __sandboxLogSubscriptions: Map<string, Set<(entry: SandboxLogEntry) => void>> | undefined;
+    var __sandboxLogNextId: number | undefined;
+}
+
+const logStore = globalThis.__sandboxLogStore || (globalThis.__sandboxLogStore = new Map<string, SandboxLogEntry[]>());
+const subscriptions = globalThis.__sandboxLogSubscriptions || (globalThis.__sandboxLogSubscriptions = new Map<string, Set<(entry: SandboxLogEntry) => void>>());
+
+// Vite and npm color their output
+const ANSI_ESCAPE = /\x1b\[[0-9;]*[A-Za-z]/g;
+
+export class SandboxLogStream {
+    /**
+     * Records a chunk of command output, one entry per non-empty line
+     */
+    static append(sandboxId: string, source: SandboxLogEntry['source'], stream: SandboxLogEntry['stream'], chunk: string) {
+        if (!logStore.has(sandboxId)) {
+            logStore.set(sandboxId, []);
+        }
+        const entries = logStore.get(sandboxId)!;
+        const callbacks = subscriptions.get(sandboxId);
+
+        for (const line of chunk.replace(ANSI_ESCAPE, '').split('\n')) {
+            if (!line.trim()) continue;
+
+            const id = globalThis.__sandboxLogNextId = (globalThis.__sandboxLogNextId ?? 0) + 1;
+            const entry: SandboxLogEntry = { id, timestamp: Date.now(), source, stream, text: line };
+            entries.push(entry);
+            callbacks?.forEach(callback => callback(entry));
+        }
+
+        // Keep only the most recent output
+        if (entries.length > MAX_ENTRIES_PER_SANDBOX) {
+            entries.splice(0, entries.length - MAX_ENTRIES_PER_SANDBOX);
+        }
+    }
+
+    /**
+     * Returns stdout/stderr callbacks for RunCommandOptions that feed this stream
+     */
+    static capture(sandboxId: string, source: SandboxLogEntry['source']) {
+        return {
+            onStdout: (data: string) => SandboxLogStream.append(sandboxId, source, 'stdout', data),
+            onStderr: (data: string) => SandboxLogStream.append(sandboxId, source, 'stderr', data)
+        };
+    }
+
+    static subscribe(sandboxId: string, callback: (entry: SandboxLogEntry) => void) {
+        if (!subscriptions.has(sandboxId)) {
+            subscriptions.set(sandboxId, new Set());
+        }
+
+        const callbacks = subscriptions.get(sandboxId)!;
+        callbacks.add(callback);
+
+        // Replay what has been logged so far
+        logStore.get(sandboxId)?.forEach(entry => callback(entry));
+
+        return () => {
+            callbacks.delete(callback);
+            if (callbacks.size === 0) {
+                subscriptions.delete(sandboxId);
+            }
+        };
+    }
+
+    static getLogs(sandboxId: string): SandboxLogEntry[] {
+        return logStore.get(sandboxId) ?? [];
+    }
+
+    static clear(sandboxId: string) {
+        logStore.delete(sandboxId);
+    }
+}
@@ -0,0 +1,294 @@
+import semver from 'semver';
+import { SandboxLogStream } from './logs';
+import { SandboxHandle, shellQuote } from './provider';
+import { getRegistryFlags, NpmRegistryConfig } from './registry';
+
+// Installed package name -> exact version
+export type InstalledPackages = Map<string, string>;
+
+// npm's rules for new package names: lowercase, URL-safe, optionally scoped, at most 214 characters
+const PACKAGE_NAME_PATTERN = /^(?:@[a-z0-9-~][a-z0-9-._~]*\/)?[a-z0-9-~][a-z0-9-._~]*$/;
+const MAX_PACKAGE_NAME_LENGTH = 214;
+
+export type DependencyChangeKind = 'added' | 'upgraded' | 'downgraded' | 'changed' | 'removed';
+
+export interface DependencyChange {
+    kind: DependencyChangeKind;
+    name: string;
+    // Range before the change (missing for added packages)
+    from?: string;
+    // Range after the change (missing for removed packages)
+    to?: string;
+}
+
+export interface DependencyPlan {
+    // Merged package.json to write to the sandbox
+    packageJson: string;
+    changes: DependencyChange[];
+}
+
+export interface DependencyInstallResult {
+    installed: string[];
+    uninstalled: string[];
+    stderr: string;
+}
+
+interface LockfileEntry {
+    version?: string;
+    link?: boolean;
+    dependencies?: Record<string, string>;
+    devDependencies?: Record<string, string>;
+}
+
+interface Lockfile {
+    packages?: Record<string, LockfileEntry>;
+    dependencies?: Record<string, { version?: string }>;
+}
+
+// Global cache - use globalThis to survive module reloads in development
+declare global {
+    var __sandboxInstalledPackages: Map<string, InstalledPackages> | undefined;
+    var __sandboxTemplateDependencies: Map<string, Set<string>> | undefined;
+}
+
+const installedPackages = globalThis.__sandboxInstalledPackages || (globalThis.__sandboxInstalledPackages = new Map<string, InstalledPackages>());
+const templateDependencies = globalThis.__sandboxTemplateDependencies || (globalThis.__sandboxTemplateDependencies = new Map<string, Set<string>>());
+
+// npm's hidden lockfile records what is actually in node_modules, including --no-save installs.
+// The project lockfile is the fallback for images that were installed before it existed.
+const LOCKFILE_PATHS = ['node_modules/.package-lock.json', 'package-lock.json'];
+
+/**
+ * Reads top-level packages and their versions from a v1, v2 or v3 npm lockfile
+ */
+export function parseLockfile(contents: string): InstalledPackages {
+    const lockfile: Lockfile = JSON.parse(contents);
+    const installed: InstalledPackages = new Map();
+
+    if (lockfile.packages) {
+        for (const [path, entry] of Object.entries(lockfile.packages)) {
+            // Only direct children of node_modules are resolvable from the project (not nested copies)
+            const match = path.match(/^node_modules\/((?:@[^/]+\/)?[^/]+)$/);
+            if (match && entry.version && !entry.link) {
+                installed.set(match[1], entry.version);
+            }
+        }
+    } else if (lockfile.dependencies) {
+        for (const [name, entry] of Object.entries(lockfile.dependencies)) {
+            if (entry.version) installed.set(name, entry.version);
+        }
+    }
+
+    return installed;
+}
+
+/**
+ * Reads the packages installed in the sandbox's project from its lockfile
+ */
+async function readInstalledPackages(sandbox: SandboxHandle, workdir: string): Promise<InstalledPackages> {
+    for (const path of LOCKFILE_PATHS) {
+        try {
+            const installed = parseLockfile(await sandbox.readFile(`${workdir}/${path}`));
+            console.log(`📦 Read ${installed.size} installed packages from ${path}`);
+            return installed;
+        } catch {
+            // Missing or unreadable, try the next one
+        }
+    }
+
+    console.warn(`No lockfile found in ${workdir}, treating every dependency as new`);
+    return new Map();
+}
+
+/**
+ * Returns the packages installed in the sandbox, reading them on first use and caching them per sandbox
+ */
+export async function getInstalledPackages(sandbox: SandboxHandle, workdir: string): Promise<InstalledPackages> {
+    let installed = installedPackages.get(sandbox.sandboxId);
+    if (!installed) {
+        installed = await readInstalledPackages(sandbox, workdir);
+        installedPackages.set(sandbox.sandboxId, installed);
+    }
+    return installed;
+}
+
+/**
+ * Drops the cached package list so it is read again after an install (or when the sandbox goes away)
+ */
+export function clearInstalledPackages(sandboxId: string) {
+    installedPackages.delete(sandboxId);
+}
+
+/**
+ * Returns the dependencies the template itself declares, read from the root entry of its
+ * package-lock.json. Installs run with --no-save, so the lockfile keeps describing the template
+ * even after package.json has been replaced by a generated one.
+ */
+export async function getTemplateDependencies(sandbox: SandboxHandle, workdir: string): Promise<Set<string>> {
+    let names = templateDependencies.get(sandbox.sandboxId);
+    if (!names) {
+        names = new Set();
+        try {
+            const lockfile: Lockfile = JSON.parse(await sandbox.readFile(`${workdir}/package-lock.json`));
+            const root = lockfile.packages?.[''];
+            Object.keys({ ...root?.dependencies, ...root?.devDependencies }).forEach(name => names!.add(name));
+        } catch (error) {
+            console.warn(`Could not read template dependencies from ${workdir}/package-lock.json:`, error);
+        }
+        templateDependencies.set(sandbox.sandboxId, names);
+    }
+    return names;
+}
+
+export function clearTemplateDependencies(sandboxId: string) {
+    templateDependencies.delete(sandboxId);
+}
+
+export function isValidPackageName(name: string): boolean {
+    return name.length <= MAX_PACKAGE_NAME_LENGTH && PACKAGE_NAME_PATTERN.test(name);
+}
+
+/**
+ * Whether an installed version satisfies a requested dependency spec. Tags other than
+ * "latest" and non-registry specs (URLs, git, file:) can't be checked, so they never match.
+ */
+export function satisfiesSpec(version: string, spec: string): boolean {
+    const range = spec.trim();
+    if (range === '' || range === '*' || range === 'latest') return true;
+    if (!semver.validRange(range)) return false;
+    return semver.satisfies(version, range, { includePrerelease: true });
+}
+
+function parseDependencies(packageJson: { dependencies?: unknown }): Record<string, string> {
+    const dependencies = packageJson.dependencies;
+    if (!dependencies || typeof dependencies !== 'object') return {};
+    return Object.fromEntries(Object.entries(dependencies).map(([name, spec]) => [name, String(spec)]));
+}
+
+/**
+ * Classifies a changed range by the lowest version each one allows
+ */
+function classifyRangeChange(from: string, to: string): DependencyChangeKind {
+    const fromVersion = semver.validRange(from) ? semver.minVersion(from) : null;
+    const toVersion = semver.validRange(to) ? semver.minVersion(to) : null;
+    if (!fromVersion || !toVersion) return 'changed';
+
+    const order = semver.compare(toVersion, fromVersion);
+    return order > 0 ? 'upgraded' : order < 0 ? 'downgraded' : 'changed';
+}
+
+/**
+ * Diffs the dependencies of the sandbox's current package.json against a requested one and
+ * merges them into the package.json to persist. Fields the request leaves out (scripts,
+ * devDependencies) are kept, and template dependencies are never removed since generated
+ * package.json files usually list only the extra packages.
+ */
+export function planDependencyChanges(
+    currentContent: string | undefined,
+    requestedContent: string,
+    templateNames: Set<string>
+): DependencyPlan {
+    let requested: Record<string, unknown>;
+    try {
+        requested = JSON.parse(requestedContent);
+    } catch (error) {
+        console.error('Error parsing package.json:', error);
+        return { packageJson: requestedContent, changes: [] };
+    }
+
+    let current: Record<string, unknown> = {};
+    try {
+        current = currentContent ? JSON.parse(currentContent) : {};
+    } catch {
+        // An unreadable package.json is replaced by the requested one
+    }
+
+    const previous = parseDependencies(current);
+    const next = parseDependencies(requested);
+    const dependencies: Record<string, string> = { ...next };
+    const changes: DependencyChange[] = [];
+
+    for (const [name, spec] of Object.entries(next)) {
+        if (!(name in previous)) {
+            changes.push({ kind: 'added', name, to: spec });
+        } else if (previous[name] !== spec) {
+            changes.push({ kind: classifyRangeChange(previous[name], spec), name, from: previous[name], to: spec });
+        }
+    }
+    for (const [name, spec] of Object.entries(previous)) {
+        if (name in next) continue;
+        if (templateNames.has(name)) {
+            dependencies[name] = spec;
+        } else {
+            changes.push({ kind: 'removed', name, from: spec });
+        }
+    }
+
+    const merged = {
+        ...current,
+        ...requested,
+        dependencies: Object.fromEntries(Object.entries(dependencies).sort(([a], [b]) => a.localeCompare(b)))
+    };
+    return { packageJson: JSON.stringify(merged, null, 2) + '\n', changes };
+}
+
+/**
+ * Installs added and re-versioned dependencies whose range isn't satisfied yet and uninstalls
+ * removed ones. package.json is written by the caller, so npm runs with --no-save and
+ * leaves the template's lockfile alone.
+ */
+export async function applyDependencyPlan(
+    sandbox: SandboxHandle,
+    workdir: string,
+    plan: DependencyPlan,
+    { ignoreScripts = false, registry = {} }: { ignoreScripts?: boolean; registry?: NpmRegistryConfig } = {}
+): Promise<DependencyInstallResult> {
+    const installed = await getInstalledPackages(sandbox, workdir);
+    const toInstall = plan.changes
+        .filter(change => change.kind !== 'removed' && !(installed.has(change.name) && satisfiesSpec(installed.get(change.name)!, change.to!)))
+        .map(change => `${change.name}@${change.to}`);
+    const toUninstall = plan.changes
+        .filter(change => change.kind === 'removed' && installed.has(change.name))
+        .map(change => change.name);
+
+    const capture = SandboxLogStream.capture(sandbox.sandboxId, 'install');
+    const registryFlags = getRegistryFlags(registry);
+    let stderr = '';
+    try {
+        if (toUninstall.length > 0) {
+            console.log('Uninstalling removed packages:', toUninstall);
+            const flags = ['--no-save', ...registryFlags].join(' ');
+            const result = await sandbox.runCommand(`npm uninstall ${toUninstall.map(shellQuote).join(' ')} ${flags}`, { cwd: workdir, ...capture });
+            stderr += result.stderr;
+        }
+        if (toInstall.length > 0) {
+            console.log('Installing packages:', toInstall);
+            const flags = ['--no-save', ...(ignoreScripts ? ['--ignore-scripts'] : []), ...registryFlags].join(' ');
+            const result = await sandbox.runCommand(`npm install ${toInstall.map(shellQuote).join(' ')} ${flags}`, { cwd: workdir, ...capture });
+            stderr += result.stderr;
+        }
+    } finally {
+        if (toInstall.length > 0 || toUninstall.length > 0) {
+            clearInstalledPackages(sandbox.sandboxId);
+        }
+    }
+
+    return { installed: toInstall, uninstalled: toUninstall, stderr };
+}
+
+/**
+ * Summarizes dependency changes for the "Installing Dependencies" step
+ */
+export function describeDependencyChanges(changes: DependencyChange[]): string {
+    if (changes.length === 0) return 'No dependency changes';
+
+    const describe = (change: DependencyChange) => {
+        switch (change.kind) {
+            case 'added': return `added ${change.name}@${change.to}`;
+            case 'removed': return `removed ${change.name}`;
+            default: return `${change.kind} ${change.name} ${change.from} → ${change.to}`;
+        }
+    };
+    const summary = changes.map(describe).join(', ');
+    return summary.charAt(0).toUpperCase() + summary.slice(1);
+}
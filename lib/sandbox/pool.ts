@@ -0,0 +1,197 @@
+import { getSandboxProvider } from './index';
+import { SandboxHandle } from './provider';
+import { SandboxLogStream } from './logs';
+
+export interface SandboxPoolConfig {
+    template: string;
+    port: number;
+    // Project directory the dev server runs in
+    workdir: string;
+    // Starts the template's dev server on the given port
+    devCommand: (port: number) => string;
+    // Number of booted sandboxes to keep ready
+    size: number;
+    // Warm sandboxes idle longer than this are replaced (E2B kills idle sandboxes after 5 minutes by default)
+    idleTimeoutMs: number;
+}
+
+export interface SandboxPoolStats {
+    size: number;
+    ready: number;
+    booting: number;
+}
+
+interface WarmSandbox {
+    sandbox: SandboxHandle;
+    readyAt: number;
+}
+
+const DEFAULT_POOL_SIZE = 0;
+const DEFAULT_IDLE_TIMEOUT_MS = 4 * 60 * 1000;
+const BOOT_RETRY_DELAY_MS = 30 * 1000;
+
+// Global pools - use globalThis to survive module reloads in development
+declare global {
+    var __sandboxPools: Map<string, SandboxPool> | undefined;
+}
+
+const pools = globalThis.__sandboxPools || (globalThis.__sandboxPools = new Map<string, SandboxPool>());
+
+/**
+ * Reads pool settings from SANDBOX_POOL_SIZE and SANDBOX_POOL_IDLE_TIMEOUT_MS
+ */
+export function getPoolConfigFromEnv(template: string, port: number, workdir: string, devCommand: (port: number) => string): SandboxPoolConfig {
+    const size = parseInt(process.env.SANDBOX_POOL_SIZE || '', 10);
+    const idleTimeoutMs = parseInt(process.env.SANDBOX_POOL_IDLE_TIMEOUT_MS || '', 10);
+
+    return {
+        template,
+        port,
+        workdir,
+        devCommand,
+        size: Number.isNaN(size) ? DEFAULT_POOL_SIZE : Math.max(0, size),
+        idleTimeoutMs: Number.isNaN(idleTimeoutMs) ? DEFAULT_IDLE_TIMEOUT_MS : idleTimeoutMs
+    };
+}
+
+/**
+ * Keeps a number of sandboxes booted with the dev server already running so that
+ * new generations can skip the cold start.
+ */
+export class SandboxPool {
+    private ready: WarmSandbox[] = [];
+    private booting = 0;
+    private lastBootFailure = 0;
+    private idleTimer: NodeJS.Timeout | null = null;
+
+    constructor(private config: SandboxPoolConfig) { }
+
+    getStats(): SandboxPoolStats {
+        return {
+            size: this.config.size,
+            ready: this.ready.length,
+            booting: this.booting
+        };
+    }
+
+    /**
+     * Hands out a warm sandbox if one is ready and starts booting a replacement.
+     * Returns null when the pool is empty so callers can fall back to a cold start.
+     */
+    claim(): SandboxHandle | null {
+        this.evictIdle();
+        const warm = this.ready.shift();
+        this.refill();
+
+        if (warm) {
+            console.log(`♨️ Claimed warm sandbox ${warm.sandbox.sandboxId} (${this.ready.length} left in pool)`);
+        }
+        return warm?.sandbox ?? null;
+    }
+
+    /**
+     * Boots sandboxes in the background until the pool is full
+     */
+    refill() {
+        if (this.config.size === 0) return;
+        if (Date.now() - this.lastBootFailure < BOOT_RETRY_DELAY_MS) return;
+
+        this.startIdleTimer();
+
+        while (this.ready.length + this.booting < this.config.size) {
+            this.booting++;
+            this.boot()
+                .then(sandbox => {
+                    this.ready.push({ sandbox, readyAt: Date.now() });
+                    console.log(`♨️ Warm sandbox ready: ${sandbox.sandboxId} (${this.ready.length}/${this.config.size})`);
+                })
+                .catch(error => {
+                    this.lastBootFailure = Date.now();
+                    console.error('Failed to boot warm sandbox:', error);
+                })
+                .finally(() => {
+                    this.booting--;
+                });
+        }
+    }
+
+    async drain() {
+        if (this.idleTimer) {
+            clearInterval(this.idleTimer);
+            this.idleTimer = null;
+        }
+        const sandboxes = this.ready.splice(0);
+        await Promise.allSettled(sandboxes.map(warm => warm.sandbox.kill()));
+    }
+
+    private async boot(): Promise<SandboxHandle> {
+        const sandbox = await getSandboxProvider().create(this.config.template, { port: this.config.port, workdir: this.config.workdir });
+
+        try {
+            await sandbox.runCommand(this.config.devCommand(sandbox.devServerPort), {
+                cwd: this.config.workdir,
+                background: true,
+                timeoutMs: 0,
+                ...SandboxLogStream.capture(sandbox.sandboxId, 'dev-server')
+            });
+            await waitForDevServer(sandbox);
+            return sandbox;
+        } catch (error) {
+            await sandbox.kill().catch(() => { });
+            throw error;
+        }
+    }
+
+    private evictIdle() {
+        const now = Date.now();
+        const expired = this.ready.filter(warm => now - warm.readyAt > this.config.idleTimeoutMs);
+        if (expired.length === 0) return;
+
+        this.ready = this.ready.filter(warm => !expired.includes(warm));
+        for (const warm of expired) {
+            console.log(`♨️ Replacing idle warm sandbox ${warm.sandbox.sandboxId}`);
+            warm.sandbox.kill().catch(error => console.error('Failed to kill idle sandbox:', error));
+        }
+    }
+
+    private startIdleTimer() {
+        if (this.idleTimer) return;
+
+        this.idleTimer = setInterval(() => {
+            this.evictIdle();
+            this.refill();
+        }, Math.max(this.config.idleTimeoutMs / 4, 5000));
+        this.idleTimer.unref?.();
+    }
+}
+
+async function waitForDevServer(sandbox: SandboxHandle) {
+    const maxAttempts = 60;
+    const pollInterval = 500;
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+        try {
+            const healthCheck = await sandbox.runCommand(`curl -s -o /dev/null -w "%{http_code}" http://localhost:${sandbox.devServerPort}`, { timeoutMs: 3000 });
+            if (healthCheck.stdout === '200') {
+                return;
+            }
+        } catch {
+            // Server not up yet
+        }
+        await new Promise(resolve => setTimeout(resolve, pollInterval));
+    }
+
+    throw new Error(`Dev server in ${sandbox.sandboxId} did not become ready`);
+}
+
+/**
+ * Returns the pool for a template, creating it from the environment config on first use
+ */
+export function getSandboxPool(template: string, port: number, workdir: string, devCommand: (port: number) => string): SandboxPool {
+    let pool = pools.get(template);
+    if (!pool) {
+        pool = new SandboxPool(getPoolConfigFromEnv(template, port, workdir, devCommand));
+        pools.set(template, pool);
+    }
+    return pool;
+}
@@ -0,0 +1,224 @@
+import { PREVIEW_BRIDGE_FILE, PREVIEW_BRIDGE_TAG } from '../preview-bridge';
+import { BuildError, BundleChunk, BundleModule, BundleReport } from '../types';
+import { SandboxLogStream } from './logs';
+import { SandboxCommandError, SandboxHandle } from './provider';
+
+// Output directory inside the project
+export const BUILD_OUT_DIR = 'dist';
+
+const BUILD_TIMEOUT_MS = 3 * 60 * 1000;
+const MAX_MODULES = 15;
+
+// What the in-sandbox script prints as its last line
+interface BuildScriptOutput {
+    unavailable?: boolean;
+    success?: boolean;
+    error?: { message: string; id?: string; loc?: { line?: number; column?: number } };
+    files?: Array<{ file: string; size: number; gzipSize: number }>;
+    modules?: BundleModule[];
+}
+
+/**
+ * Runs vite build through Vite's JS API, so the project's vite.config still applies, with a plugin
+ * that records how many bytes each module renders into the output. The preview bridge is left out
+ * of the build, it only works inside the builder. Gzip sizes are measured on the files written to dist/.
+ */
+const BUILD_SCRIPT = `
+const { pathToFileURL } = require('url');
+const { readdirSync, readFileSync, rmSync } = require('fs');
+const { join, relative } = require('path');
+const { gzipSync } = require('zlib');
+
+(async () => {
+    const root = process.cwd();
+    const outDir = join(root, process.env.OUT_DIR);
+    const modules = new Map();
+
+    let vite;
+    try {
+        vite = await import(pathToFileURL(require.resolve('vite', { paths: [root] })).href);
+    } catch {
+        console.log(JSON.stringify({ unavailable: true }));
+        return;
+    }
+
+    try {
+        await vite.build({
+            root,
+            base: process.env.BASE_PATH,
+            build: { outDir, emptyOutDir: true, reportCompressedSize: false },
+            plugins: [{
+                name: 'strip-preview-bridge',
+                transformIndexHtml: { order: 'pre', handler: html => html.replace(process.env.PREVIEW_BRIDGE_TAG, '') }
+            }, {
+                name: 'bundle-report',
+                generateBundle(_options, bundle) {
+                    for (const output of Object.values(bundle)) {
+                        if (output.type !== 'chunk') continue;
+                        for (const [id, info] of Object.entries(output.modules)) {
+                            modules.set(id, (modules.get(id) || 0) + info.renderedLength);
+                        }
+                    }
+                }
+            }]
+        });
+    } catch (error) {
+        console.log(JSON.stringify({
+            success: false,
+            error: { message: String(error && error.message || error), id: error && error.id, loc: error && error.loc }
+        }));
+        return;
+    }
+    // Copied over from public/
+    rmSync(join(outDir, process.env.PREVIEW_BRIDGE_OUTPUT), { force: true });
+
+    const files = [];
+    const walk = dir => {
+        for (const entry of readdirSync(dir, { withFileTypes: true })) {
+            const path = join(dir, entry.name);
+            if (entry.isDirectory()) {
+                walk(path);
+            } else {
+                const contents = readFileSync(path);
+                files.push({ file: relative(outDir, path), size: contents.length, gzipSize: gzipSync(contents).length });
+            }
+        }
+    };
+    walk(outDir);
+
+    console.log(JSON.stringify({
+        success: true,
+        files,
+        modules: [...modules].map(([id, size]) => ({
+            // Virtual modules (e.g. Vite's preload helper) start with a null byte
+            id: id.startsWith(root) ? relative(root, id) : id.replace(/^\\0/, ''),
+            size
+        }))
+    }));
+})().catch(error => {
+    console.error(error);
+    process.exit(1);
+});
+`;
+
+function chunkKind(file: string): BundleChunk['kind'] {
+    if (/\.m?js$/.test(file)) return 'js';
+    if (file.endsWith('.css')) return 'css';
+    if (file.endsWith('.html')) return 'html';
+    return 'asset';
+}
+
+function buildError(output: BuildScriptOutput['error'], workdir: string): BuildError {
+    return {
+        type: 'build',
+        message: output?.message ?? 'vite build failed',
+        file: output?.id?.replace(`${workdir}/`, '').replace(/\?.*$/, ''),
+        line: output?.loc?.line,
+        column: output?.loc?.column
+    };
+}
+
+/**
+ * Maps the build script's output to a bundle report, largest chunks and modules first
+ */
+function toBundleReport(output: BuildScriptOutput, workdir: string, durationMs: number): BundleReport {
+    const chunks = (output.files ?? [])
+        .map((file): BundleChunk => ({ ...file, kind: chunkKind(file.file) }))
+        .sort((a, b) => b.size - a.size);
+
+    return {
+        success: !!output.success,
+        chunks,
+        totalSize: chunks.reduce((total, chunk) => total + chunk.size, 0),
+        totalGzipSize: chunks.reduce((total, chunk) => total + chunk.gzipSize, 0),
+        largestModules: (output.modules ?? [])
+            .filter(module => module.size > 0)
+            .sort((a, b) => b.size - a.size)
+            .slice(0, MAX_MODULES),
+        errors: output.success ? [] : [buildError(output.error, workdir)],
+        durationMs,
+        builtAt: Date.now()
+    };
+}
+
+/**
+ * Builds the project for production with vite build and reports the size of every output file
+ * (raw and gzipped) and the modules contributing the most bytes. Output is written to dist/, with
+ * asset URLs prefixed by `basePath` for wherever the site will be served from.
+ */
+export async function runProductionBuild(
+    sandbox: SandboxHandle,
+    workdir: string,
+    { basePath = '/' }: { basePath?: string } = {}
+): Promise<BundleReport> {
+    const startTime = Date.now();
+
+    let stdout: string;
+    try {
+        const result = await sandbox.runCommand('node -e "$BUILD_SCRIPT"', {
+            cwd: workdir,
+            envs: {
+                BUILD_SCRIPT,
+                OUT_DIR: BUILD_OUT_DIR,
+                BASE_PATH: basePath,
+                PREVIEW_BRIDGE_TAG,
+                PREVIEW_BRIDGE_OUTPUT: PREVIEW_BRIDGE_FILE.replace(/^public\//, '')
+            },
+            timeoutMs: BUILD_TIMEOUT_MS,
+            ...SandboxLogStream.capture(sandbox.sandboxId, 'build')
+        });
+        stdout = result.stdout;
+    } catch (error) {
+        if (error instanceof SandboxCommandError) {
+            throw new Error(`Production build failed: ${error.result.stderr || error.result.stdout}`);
+        }
+        throw error;
+    }
+
+    // Vite prints its own progress first, so the JSON result is the last line
+    const output: BuildScriptOutput = JSON.parse(stdout.trim().split('\n').pop() || '{}');
+    if (output.unavailable) {
+        throw new Error('Vite is not installed in this sandbox');
+    }
+
+    const report = toBundleReport(output, workdir, Date.now() - startTime);
+    console.log(report.success
+        ? `📦 Production build: ${report.chunks.length} file(s), ${report.totalGzipSize} bytes gzipped`
+        : `🔴 Production build failed: ${report.errors[0]?.message}`);
+    return report;
+}
+
+// Prints every file in the build output as base64, so binary assets survive the trip out of the sandbox
+const READ_OUTPUT_SCRIPT = `
+const { readdirSync, readFileSync } = require('fs');
+const { join, relative } = require('path');
+
+const outDir = join(process.cwd(), process.env.OUT_DIR);
+const files = [];
+const walk = dir => {
+    for (const entry of readdirSync(dir, { withFileTypes: true })) {
+        const path = join(dir, entry.name);
+        if (entry.isDirectory()) {
+            walk(path);
+        } else {
+            files.push({ path: relative(outDir, path), data: readFileSync(path).toString('base64') });
+        }
+    }
+};
+walk(outDir);
+console.log(JSON.stringify(files));
+`;
+
+/**
+ * Reads the files of the last production build out of the sandbox
+ */
+export async function readBuildOutput(sandbox: SandboxHandle, workdir: string): Promise<Array<{ path: string; data: Buffer }>> {
+    const result = await sandbox.runCommand('node -e "$READ_OUTPUT_SCRIPT"', {
+        cwd: workdir,
+        envs: { READ_OUTPUT_SCRIPT, OUT_DIR: BUILD_OUT_DIR },
+        timeoutMs: 60 * 1000
+    });
+
+    const files: Array<{ path: string; data: string }> = JSON.parse(result.stdout.trim().split('\n').pop() || '[]');
+    return files.map(file => ({ path: file.path, data: Buffer.from(file.data, 'base64') }));
+}
@@ -0,0 +1,85 @@
+import { ProcessResult, SandboxFile } from '../types';
+
+export interface SandboxEntry {
+    name: string;
+    path: string;
+    type: 'file' | 'dir';
+}
+
+export interface RunCommandOptions {
+    cwd?: string;
+    envs?: Record<string, string>;
+    timeoutMs?: number;
+    background?: boolean;
+    onStdout?: (data: string) => void;
+    onStderr?: (data: string) => void;
+}
+
+/**
+ * A running sandbox, independent of where it is hosted.
+ * Paths are always absolute paths inside the sandbox (e.g. /app/src/App.tsx).
+ */
+export interface SandboxHandle {
+    readonly sandboxId: string;
+    readonly provider: string;
+
+    /**
+     * Port the dev server should listen on inside this sandbox. Isolated sandboxes
+     * (E2B, Docker) always use the template port; host processes get a free port.
+     */
+    readonly devServerPort: number;
+
+    writeFiles(files: SandboxFile[]): Promise<void>;
+    removeFiles(paths: string[]): Promise<void>;
+    listFiles(dirPath: string): Promise<SandboxEntry[]>;
+    readFile(filePath: string): Promise<string>;
+
+    /**
+     * Runs a shell command. Throws a SandboxCommandError when the command exits non-zero.
+     * Background commands resolve immediately with whatever output was captured so far.
+     */
+    runCommand(cmd: string, options?: RunCommandOptions): Promise<ProcessResult>;
+
+    /**
+     * Returns the host (without protocol) that exposes the given sandbox port
+     */
+    getHost(port: number): string;
+
+    /**
+     * Returns a browsable URL for the given sandbox port
+     */
+    getUrl(port: number): string;
+
+    /**
+     * Extends (or shortens) how long the sandbox may stay alive from now
+     */
+    setTimeout(timeoutMs: number): Promise<void>;
+
+    isRunning(): Promise<boolean>;
+
+    kill(): Promise<void>;
+}
+
+export interface SandboxProvider {
+    readonly name: string;
+    // workdir is the template's project directory; images already ship it, host processes copy the template there
+    create(template: string, options: { port: number; workdir: string }): Promise<SandboxHandle>;
+    connect(sandboxId: string, options: { port: number }): Promise<SandboxHandle>;
+}
+
+export class SandboxCommandError extends Error {
+    readonly result: ProcessResult;
+
+    constructor(cmd: string, result: ProcessResult) {
+        super(`Command "${cmd}" exited with code ${result.exitCode}: ${result.stderr || result.stdout}`);
+        this.name = 'SandboxCommandError';
+        this.result = result;
+    }
+}
+
+/**
+ * Quotes a value as a single bash word, for paths and URLs that come from generated code
+ */
+export function shellQuote(value: string): string {
+    return `'${value.replace(/'/g, `'\\''`)}'`;
+}
@@ -0,0 +1,41 @@
+import { TemplateId } from '../templates';
+
+/**
+ * Where a template's sandboxes install packages from when the public registry is unreachable
+ */
+export interface NpmRegistryConfig {
+    // Registry mirror as seen from inside the sandbox, e.g. a Verdaccio container
+    url?: string;
+    // npm cache directory inside the sandbox, seeded with tarballs. Installs read from it before the mirror.
+    cacheDir?: string;
+}
+
+/**
+ * Reads the registry settings for a template. NPM_REGISTRY_URL_<TEMPLATE> and NPM_CACHE_DIR_<TEMPLATE>
+ * (e.g. NPM_CACHE_DIR_VUE) override the shared NPM_REGISTRY_URL and NPM_CACHE_DIR.
+ */
+export function getRegistryConfig(templateId: TemplateId): NpmRegistryConfig {
+    const suffix = templateId.toUpperCase();
+    return {
+        url: process.env[`NPM_REGISTRY_URL_${suffix}`] || process.env.NPM_REGISTRY_URL || undefined,
+        cacheDir: process.env[`NPM_CACHE_DIR_${suffix}`] || process.env.NPM_CACHE_DIR || undefined
+    };
+}
+
+/**
+ * npm flags that point install and uninstall commands at the configured mirror or cache
+ */
+export function getRegistryFlags(config: NpmRegistryConfig): string[] {
+    const flags: string[] = [];
+    if (config.url) {
+        flags.push(`--registry=${config.url}`);
+    }
+    if (config.cacheDir) {
+        // Without a mirror only the seeded cache is used, so a package missing from it fails fast instead of timing out
+        flags.push(`--cache=${config.cacheDir}`, config.url ? '--prefer-offline' : '--offline');
+    }
+    if (flags.length > 0) {
+        flags.push('--no-audit', '--no-fund');
+    }
+    return flags;
+}
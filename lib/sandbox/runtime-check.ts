@@ -0,0 +1,149 @@
+import { BuildError } from '../types';
+import { runBrowserScript } from './browser';
+import { SandboxHandle } from './provider';
+
+/**
+ * blocking: uncaught exceptions fail the build (console.error calls are warnings)
+ * advisory: everything is reported as warnings
+ * off: the stage is skipped
+ */
+export type RuntimeCheckMode = 'blocking' | 'advisory' | 'off';
+
+export interface RuntimeCheckResult {
+    mode: RuntimeCheckMode;
+    // False when the sandbox has no headless browser (e.g. a local process sandbox without Playwright)
+    available: boolean;
+    errors: BuildError[];
+    durationMs: number;
+}
+
+// What the in-sandbox script reports for each problem it sees
+interface RuntimeEvent {
+    kind: 'exception' | 'console';
+    message: string;
+    stack?: string;
+    url?: string;
+    line?: number;
+    column?: number;
+}
+
+interface RuntimeCheckOutput {
+    events: RuntimeEvent[];
+    rootEmpty: boolean;
+}
+
+const RUNTIME_CHECK_TIMEOUT_MS = 45 * 1000;
+// How long to let the app render and run effects after the load event
+const SETTLE_MS = 2000;
+
+// Loads the preview and reports what went wrong
+const RUNTIME_CHECK_SCRIPT = `
+const events = [];
+const page = await browser.newPage();
+page.on('pageerror', error => events.push({ kind: 'exception', message: error.message, stack: error.stack }));
+page.on('console', message => {
+    if (message.type() !== 'error') return;
+    const location = message.location();
+    events.push({
+        kind: 'console',
+        message: message.text(),
+        url: location.url,
+        line: location.lineNumber + 1,
+        column: location.columnNumber + 1
+    });
+});
+
+await page.goto(process.env.PREVIEW_URL, { waitUntil: 'load', timeout: 20000 });
+await page.waitForTimeout(Number(process.env.SETTLE_MS));
+
+const rootEmpty = await page.evaluate(() => {
+    const root = document.getElementById('root') || document.getElementById('app');
+    return !!root && root.childElementCount === 0;
+});
+return { events, rootEmpty };
+`;
+
+/**
+ * Reads the runtime check mode from RUNTIME_CHECK_MODE (defaults to blocking)
+ */
+export function getRuntimeCheckMode(): RuntimeCheckMode {
+    const mode = process.env.RUNTIME_CHECK_MODE;
+    return mode === 'advisory' || mode === 'off' ? mode : 'blocking';
+}
+
+/**
+ * Extracts the project file and position from a served module URL such as
+ * http://localhost:5173/src/App.tsx?t=1712:12:5
+ */
+function parseSourceLocation(text: string | undefined): Pick<BuildError, 'file' | 'line' | 'column'> {
+    const match = text?.match(/https?:\/\/[^/\s]+\/(src\/[^?:\s)]+)(?:\?[^:\s)]*)?:(\d+):(\d+)/);
+    if (!match) return {};
+
+    return {
+        file: match[1],
+        line: parseInt(match[2], 10),
+        column: parseInt(match[3], 10)
+    };
+}
+
+function isNoise(event: RuntimeEvent): boolean {
+    // Browsers request a favicon the template does not ship
+    return event.kind === 'console' && /favicon\.ico/.test(`${event.url} ${event.message}`);
+}
+
+/**
+ * Maps the events reported by the browser to runtime BuildErrors. Positions point at the
+ * code Vite served, which matches the source closely for most TSX files.
+ */
+export function runtimeEventsToBuildErrors(output: RuntimeCheckOutput, mode: RuntimeCheckMode): BuildError[] {
+    const events = output.events.filter(event => !isNoise(event));
+
+    const errors = events.map((event): BuildError => {
+        const location = event.kind === 'exception'
+            ? parseSourceLocation(event.stack)
+            : parseSourceLocation(`${event.url}:${event.line}:${event.column}`);
+
+        return {
+            type: 'runtime',
+            message: event.kind === 'exception' ? `Uncaught ${event.message}` : `console.error: ${event.message}`,
+            ...location,
+            severity: mode === 'blocking' && event.kind === 'exception' ? 'error' : 'warning'
+        };
+    });
+
+    if (output.rootEmpty && !errors.some(error => error.severity === 'error')) {
+        errors.push({
+            type: 'runtime',
+            message: 'The app rendered nothing into the root element',
+            severity: 'warning'
+        });
+    }
+
+    return errors;
+}
+
+/**
+ * Loads the running preview in headless Chromium inside the sandbox and collects
+ * uncaught exceptions, React error output and console.error calls.
+ */
+export async function runRuntimeCheck(sandbox: SandboxHandle, mode = getRuntimeCheckMode()): Promise<RuntimeCheckResult> {
+    const startTime = Date.now();
+    if (mode === 'off') {
+        return { mode, available: false, errors: [], durationMs: 0 };
+    }
+
+    const output = await runBrowserScript<RuntimeCheckOutput>(sandbox, RUNTIME_CHECK_SCRIPT, {
+        envs: { SETTLE_MS: String(SETTLE_MS) },
+        timeoutMs: RUNTIME_CHECK_TIMEOUT_MS
+    });
+    if (!output) {
+        return { mode, available: false, errors: [], durationMs: Date.now() - startTime };
+    }
+
+    return {
+        mode,
+        available: true,
+        errors: runtimeEventsToBuildErrors(output, mode),
+        durationMs: Date.now() - startTime
+    };
+}
@@ -0,0 +1,33 @@
+import { runBrowserScript } from './browser';
+import { SandboxHandle } from './provider';
+
+export const SCREENSHOT_VIEWPORT = { width: 1280, height: 800 };
+
+const SCREENSHOT_TIMEOUT_MS = 45 * 1000;
+// Gives animations and late effects a moment before the capture
+const SETTLE_MS = 1000;
+
+const SCREENSHOT_SCRIPT = `
+const page = await browser.newPage({
+    viewport: { width: Number(process.env.VIEWPORT_WIDTH), height: Number(process.env.VIEWPORT_HEIGHT) }
+});
+await page.goto(process.env.PREVIEW_URL, { waitUntil: 'load', timeout: 20000 });
+await page.waitForTimeout(Number(process.env.SETTLE_MS));
+return (await page.screenshot({ type: 'png' })).toString('base64');
+`;
+
+/**
+ * Takes a PNG screenshot of the running preview in headless Chromium inside the sandbox.
+ * Resolves to null when the sandbox has no headless browser.
+ */
+export async function capturePreviewScreenshot(sandbox: SandboxHandle): Promise<Buffer | null> {
+    const base64 = await runBrowserScript<string>(sandbox, SCREENSHOT_SCRIPT, {
+        envs: {
+            VIEWPORT_WIDTH: String(SCREENSHOT_VIEWPORT.width),
+            VIEWPORT_HEIGHT: String(SCREENSHOT_VIEWPORT.height),
+            SETTLE_MS: String(SETTLE_MS)
+        },
+        timeoutMs: SCREENSHOT_TIMEOUT_MS
+    });
+    return base64 ? Buffer.from(base64, 'base64') : null;
+}
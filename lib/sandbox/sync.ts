@@ -0,0 +1,150 @@
+import { createHash } from 'crypto';
+import { z } from 'zod';
+import { benchifyFileSchema } from '../schemas';
+import { BoilerplateFilter, fetchAllSandboxFiles, isBinaryFile, isDefaultAppFile, isFilteredPath, toProjectContents } from '../file-filter';
+import { SandboxHandle } from './provider';
+
+interface ManifestEntry {
+    hash: string;
+    contents: string;
+}
+
+// Last known contents of the project directory per sandbox, keyed by path relative to it
+type SyncManifest = Map<string, ManifestEntry>;
+
+export interface SyncResult {
+    written: string[];
+    removed: string[];
+    unchanged: number;
+}
+
+// Global manifests - use globalThis to survive module reloads in development
+declare global {
+    var __sandboxSyncManifests: Map<string, SyncManifest> | undefined;
+}
+
+const manifests = globalThis.__sandboxSyncManifests || (globalThis.__sandboxSyncManifests = new Map<string, SyncManifest>());
+
+function hashContents(contents: string): string {
+    return createHash('sha256').update(contents, 'utf8').digest('hex');
+}
+
+function getManifest(sandboxId: string): SyncManifest {
+    let manifest = manifests.get(sandboxId);
+    if (!manifest) {
+        manifest = new Map();
+        manifests.set(sandboxId, manifest);
+    }
+    return manifest;
+}
+
+export function clearSyncManifest(sandboxId: string) {
+    manifests.delete(sandboxId);
+}
+
+/**
+ * Writes only the files whose contents differ from what the sandbox already has,
+ * and removes the given paths (relative to the project directory).
+ */
+export async function syncFilesToSandbox(
+    sandbox: SandboxHandle,
+    workdir: string,
+    files: z.infer<typeof benchifyFileSchema>,
+    removedPaths: string[] = []
+): Promise<SyncResult> {
+    const manifest = getManifest(sandbox.sandboxId);
+
+    const changedFiles = files
+        .map(file => ({ ...file, hash: hashContents(file.contents) }))
+        .filter(file => manifest.get(file.path)?.hash !== file.hash);
+
+    if (removedPaths.length > 0) {
+        await sandbox.removeFiles(removedPaths.map(path => `${workdir}/${path}`));
+        removedPaths.forEach(path => manifest.delete(path));
+    }
+
+    if (changedFiles.length > 0) {
+        await sandbox.writeFiles(changedFiles.map(file => ({
+            path: `${workdir}/${file.path}`,
+            data: file.contents
+        })));
+        changedFiles.forEach(file => manifest.set(file.path, { hash: file.hash, contents: file.contents }));
+    }
+
+    const result = {
+        written: changedFiles.map(file => file.path),
+        removed: removedPaths,
+        unchanged: files.length - changedFiles.length
+    };
+    console.log(`🔁 Synced ${sandbox.sandboxId}: ${result.written.length} written, ${result.removed.length} removed, ${result.unchanged} unchanged`);
+    return result;
+}
+
+/**
+ * Lists path/hash pairs for every project file with a single command
+ */
+async function listRemoteHashes(sandbox: SandboxHandle, workdir: string): Promise<Map<string, string>> {
+    const result = await sandbox.runCommand(
+        "find . \\( -name node_modules -o -name '.*' ! -name . \\) -prune -o -type f -print0 | xargs -0 -r sha256sum",
+        { cwd: workdir, timeoutMs: 15000 }
+    );
+
+    const hashes = new Map<string, string>();
+    for (const line of result.stdout.split('\n')) {
+        // Lines look like "<hash>  ./src/App.tsx"
+        const match = line.match(/^([0-9a-f]{64})\s+\.\/(.+)$/);
+        if (match) {
+            hashes.set(match[2], match[1]);
+        }
+    }
+    return hashes;
+}
+
+/**
+ * Returns all project files in the sandbox, reading back only the files whose hash
+ * changed since the last sync. Falls back to a full read if hashing is unavailable.
+ */
+export async function fetchChangedSandboxFiles(
+    sandbox: SandboxHandle,
+    workdir: string,
+    boilerplate?: BoilerplateFilter
+): Promise<z.infer<typeof benchifyFileSchema>> {
+    const manifest = getManifest(sandbox.sandboxId);
+
+    let remoteHashes: Map<string, string>;
+    try {
+        remoteHashes = await listRemoteHashes(sandbox, workdir);
+    } catch (error) {
+        console.warn('Hash listing failed, reading all sandbox files:', error);
+        const allFiles = await fetchAllSandboxFiles(sandbox, workdir, boilerplate);
+        manifest.clear();
+        allFiles.forEach(file => manifest.set(file.path, { hash: hashContents(file.contents), contents: file.contents }));
+        return allFiles;
+    }
+
+    // Forget files that no longer exist in the sandbox
+    for (const path of manifest.keys()) {
+        if (!remoteHashes.has(path)) {
+            manifest.delete(path);
+        }
+    }
+
+    let fetched = 0;
+    for (const [path, hash] of remoteHashes) {
+        if (isFilteredPath(path, boilerplate) || isBinaryFile(path)) continue;
+        if (manifest.get(path)?.hash === hash) continue;
+
+        try {
+            const contents = await sandbox.readFile(`${workdir}/${path}`);
+            manifest.set(path, { hash, contents });
+            fetched++;
+        } catch (error) {
+            console.error(`Error reading file ${workdir}/${path}:`, error);
+        }
+    }
+    console.log(`🔁 Fetched ${fetched} changed file(s) from ${sandbox.sandboxId}`);
+
+    return Array.from(manifest.entries())
+        .filter(([path, entry]) => !isFilteredPath(path, boilerplate) && !isDefaultAppFile(path, entry.contents, boilerplate))
+        .map(([path, entry]) => ({ path, contents: toProjectContents(path, entry.contents) }));
+}
@@ -0,0 +1,202 @@
+import { AppTemplate } from '../templates';
+import { TestCaseResult, TestRunResult } from '../types';
+import { getDependencyPolicy } from './dependency-policy';
+import { SandboxLogStream } from './logs';
+import { clearInstalledPackages, getInstalledPackages, satisfiesSpec } from './packages';
+import { SandboxCommandError, SandboxHandle, shellQuote } from './provider';
+import { getRegistryConfig, getRegistryFlags } from './registry';
+
+// Vitest's default include pattern, limited to the source directory
+export const TEST_FILE_PATTERN = /\.(test|spec)\.[cm]?[jt]sx?$/;
+
+const TEST_TIMEOUT_MS = 2 * 60 * 1000;
+const INSTALL_TIMEOUT_MS = 3 * 60 * 1000;
+// Inside node_modules so file sync never picks them up
+const RESULTS_FILE = 'node_modules/.cache/vitest-results.json';
+const SETUP_FILE = 'node_modules/.cache/vitest.setup.js';
+const CONFIG_FILE = 'node_modules/.cache/vitest.config.mjs';
+
+// Registers the jest-dom matchers (toBeInTheDocument, ...) for every test file
+const SETUP_SCRIPT = `import '@testing-library/jest-dom/vitest';\n`;
+
+/**
+ * Extends the project's own vite.config (so its framework plugin compiles the components) with a
+ * jsdom environment and the setup file. Globals let Testing Library clean up the DOM after each test.
+ */
+const CONFIG_SCRIPT = `import { join } from 'path';
+import { loadConfigFromFile, mergeConfig } from 'vite';
+
+const root = process.cwd();
+const loaded = await loadConfigFromFile({ command: 'serve', mode: 'test' }, undefined, root);
+
+export default mergeConfig(loaded ? loaded.config : {}, {
+    root,
+    test: {
+        environment: 'jsdom',
+        globals: true,
+        setupFiles: [join(root, '${SETUP_FILE}')]
+    }
+});
+`;
+
+// Shape of Vitest's --reporter=json output (Jest compatible)
+interface VitestJsonReport {
+    testResults?: Array<{
+        name: string;
+        status: 'passed' | 'failed';
+        message?: string;
+        assertionResults: Array<{
+            fullName?: string;
+            ancestorTitles: string[];
+            title: string;
+            status: 'passed' | 'failed' | 'pending' | 'skipped' | 'todo' | 'disabled';
+            duration?: number | null;
+            failureMessages?: string[] | null;
+        }>;
+    }>;
+}
+
+export function isTestFile(path: string): boolean {
+    return TEST_FILE_PATTERN.test(path);
+}
+
+/**
+ * Lists the test files under src/, relative to the project
+ */
+export async function findTestFiles(sandbox: SandboxHandle, workdir: string): Promise<string[]> {
+    const result = await sandbox.runCommand('find src -type f -not -path "*/node_modules/*"', { cwd: workdir });
+    return result.stdout
+        .split('\n')
+        .map(line => line.trim())
+        .filter(isTestFile)
+        .sort();
+}
+
+/**
+ * Installs the template's test packages that the sandbox doesn't have yet (or has at a version
+ * outside the template's range), honouring the dependency policy's pins. Like other installs
+ * they aren't saved to package.json, so they never show up in the generated project.
+ */
+export async function ensureTestPackages(sandbox: SandboxHandle, template: AppTemplate): Promise<string[]> {
+    const installed = await getInstalledPackages(sandbox, template.workdir);
+    const { pins } = getDependencyPolicy();
+    const missing = Object.entries(template.testPackages)
+        .map(([name, range]) => ({ name, spec: pins[name] ?? range }))
+        .filter(({ name, spec }) => {
+            const version = installed.get(name);
+            return !version || !satisfiesSpec(version, spec);
+        })
+        .map(({ name, spec }) => `${name}@${spec}`);
+    if (missing.length === 0) {
+        return [];
+    }
+
+    console.log('Installing test packages:', missing);
+    const flags = ['--no-save', ...getRegistryFlags(getRegistryConfig(template.id))].join(' ');
+    try {
+        await sandbox.runCommand(`npm install ${missing.map(shellQuote).join(' ')} ${flags}`, {
+            cwd: template.workdir,
+            timeoutMs: INSTALL_TIMEOUT_MS,
+            ...SandboxLogStream.capture(sandbox.sandboxId, 'install')
+        });
+    } finally {
+        clearInstalledPackages(sandbox.sandboxId);
+    }
+    return missing;
+}
+
+function relativeTo(workdir: string, path: string): string {
+    return path.startsWith(`${workdir}/`) ? path.slice(workdir.length + 1) : path;
+}
+
+/**
+ * Maps Vitest's JSON report to per-test results with paths relative to the project
+ */
+export function parseVitestReport(report: VitestJsonReport, workdir: string): Pick<TestRunResult, 'tests' | 'fileErrors'> {
+    const tests: TestCaseResult[] = [];
+    const fileErrors: TestRunResult['fileErrors'] = [];
+
+    for (const fileResult of report.testResults ?? []) {
+        const file = relativeTo(workdir, fileResult.name);
+        // A failed file without test results never got to run its tests
+        if (fileResult.status === 'failed' && fileResult.assertionResults.length === 0) {
+            fileErrors.push({ file, message: fileResult.message || 'Test file failed to run' });
+            continue;
+        }
+
+        for (const assertion of fileResult.assertionResults) {
+            tests.push({
+                file,
+                name: [...assertion.ancestorTitles, assertion.title].join(' > '),
+                status: assertion.status === 'passed' || assertion.status === 'failed' ? assertion.status : 'skipped',
+                durationMs: assertion.duration != null ? Math.round(assertion.duration) : undefined,
+                failureMessages: assertion.failureMessages ?? []
+            });
+        }
+    }
+
+    return { tests, fileErrors };
+}
+
+/**
+ * Runs the project's *.test.tsx (and .ts, .jsx, .js) files with Vitest in a jsdom environment,
+ * installing Vitest and Testing Library first if the sandbox doesn't have them.
+ * Returns null when the project has no test files.
+ */
+export async function runTests(sandbox: SandboxHandle, template: AppTemplate): Promise<TestRunResult | null> {
+    const startTime = Date.now();
+    const files = await findTestFiles(sandbox, template.workdir);
+    if (files.length === 0) {
+        return null;
+    }
+
+    await ensureTestPackages(sandbox, template);
+    await sandbox.writeFiles([
+        { path: `${template.workdir}/${SETUP_FILE}`, data: SETUP_SCRIPT },
+        { path: `${template.workdir}/${CONFIG_FILE}`, data: CONFIG_SCRIPT }
+    ]);
+
+    const cmd = [
+        // A stale report must not stand in for a run that crashed
+        `rm -f ${RESULTS_FILE} &&`,
+        'npx --no-install vitest run',
+        ...files.map(shellQuote),
+        `--config=${CONFIG_FILE}`,
+        '--reporter=json',
+        `--outputFile=${RESULTS_FILE}`
+    ].join(' ');
+
+    try {
+        await sandbox.runCommand(cmd, {
+            cwd: template.workdir,
+            timeoutMs: TEST_TIMEOUT_MS,
+            ...SandboxLogStream.capture(sandbox.sandboxId, 'test')
+        });
+    } catch (error) {
+        // Vitest exits with 1 when a test fails, the report is still written
+        if (!(error instanceof SandboxCommandError) || error.result.exitCode !== 1) {
+            throw error;
+        }
+    }
+
+    let report: VitestJsonReport;
+    try {
+        report = JSON.parse(await sandbox.readFile(`${template.workdir}/${RESULTS_FILE}`));
+    } catch (error) {
+        throw new Error(`Vitest did not write a report: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const { tests, fileErrors } = parseVitestReport(report, template.workdir);
+    const passed = tests.filter(test => test.status === 'passed').length;
+    const failed = tests.filter(test => test.status === 'failed').length;
+    console.log(`🧪 Tests: ${passed} passed, ${failed} failed, ${fileErrors.length} file error(s)`);
+
+    return {
+        success: failed === 0 && fileErrors.length === 0,
+        files,
+        tests,
+        fileErrors,
+        durationMs: Date.now() - startTime,
+        ranAt: Date.now()
+    };
+}
@@ -0,0 +1,81 @@
+import { BuildError } from '../types';
+import { parseTypeScriptErrors } from '../error-detection';
+import { SandboxCommandError, SandboxHandle } from './provider';
+
+/**
+ * blocking: type errors fail the build and are shown for fixing
+ * advisory: type errors are reported as warnings and the preview is shown anyway
+ * off: the stage is skipped
+ */
+export type TypeCheckMode = 'blocking' | 'advisory' | 'off';
+
+export interface TypeCheckResult {
+    mode: TypeCheckMode;
+    diagnostics: BuildError[];
+    // Whether any diagnostic should fail the build under the current mode
+    hasBlockingErrors: boolean;
+    durationMs: number;
+}
+
+const TYPECHECK_TIMEOUT_MS = 60 * 1000;
+const TSC_COMMAND = 'npx --no-install tsc --noEmit --pretty false';
+
+// The template's tsconfig enables noUnusedLocals/noUnusedParameters, which the dev server ignores
+const NON_CRITICAL_CODES = new Set([
+    'TS6133', // 'x' is declared but its value is never read
+    'TS6192', // All imports in import declaration are unused
+    'TS6196', // 'x' is declared but never used
+    'TS6198'  // All destructured elements are unused
+]);
+
+/**
+ * Reads the type-check mode from TYPECHECK_MODE (defaults to blocking)
+ */
+export function getTypeCheckMode(): TypeCheckMode {
+    const mode = process.env.TYPECHECK_MODE;
+    return mode === 'advisory' || mode === 'off' ? mode : 'blocking';
+}
+
+/**
+ * Runs `tsc --noEmit` (or a template's tsc-compatible checker such as vue-tsc) against the
+ * project in workdir and returns its diagnostics.
+ * Unused-code diagnostics, and all diagnostics in advisory mode, are downgraded to warnings.
+ */
+export async function runTypeCheck(
+    sandbox: SandboxHandle,
+    workdir: string,
+    command = TSC_COMMAND,
+    mode = getTypeCheckMode()
+): Promise<TypeCheckResult> {
+    const startTime = Date.now();
+    if (mode === 'off') {
+        return { mode, diagnostics: [], hasBlockingErrors: false, durationMs: 0 };
+    }
+
+    let output: string;
+    try {
+        const result = await sandbox.runCommand(command, {
+            cwd: workdir,
+            timeoutMs: TYPECHECK_TIMEOUT_MS
+        });
+        output = result.stdout;
+    } catch (error) {
+        // tsc exits non-zero when it finds errors
+        if (!(error instanceof SandboxCommandError)) {
+            throw error;
+        }
+        output = `${error.result.stdout}\n${error.result.stderr}`;
+    }
+
+    const diagnostics = parseTypeScriptErrors(output).map((diagnostic): BuildError => ({
+        ...diagnostic,
+        severity: mode === 'advisory' || NON_CRITICAL_CODES.has(diagnostic.code ?? '') ? 'warning' : 'error'
+    }));
+
+    return {
+        mode,
+        diagnostics,
+        hasBlockingErrors: diagnostics.some(diagnostic => diagnostic.severity === 'error'),
+        durationMs: Date.now() - startTime
+    };
+}
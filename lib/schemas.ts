@@ -7,6 +7,22 @@ export const benchifyFileSchema = z.array(z.object({
     contents: z.string()
 }));
 
+// File operation schema - edits describe how each file changes instead of returning whole files only
+export const fileOperationSchema = z.object({
+    operation: z.enum(['create', 'update', 'delete', 'rename']),
+    path: z.string(),
+    contents: z.string().optional(),
+    newPath: z.string().optional()
+});
+
+export type FileOperation = z.infer<typeof fileOperationSchema>;
+
+// Generated project files together with the operations that produced them
+export interface FileChangeSet {
+    files: z.infer<typeof benchifyFileSchema>;
+    operations: FileOperation[];
+}
+
 export const benchifyRequestSchema = z.object({
     repoUrl: z.string().optional(),
     files: benchifyFileSchema.optional(),
@@ -0,0 +1,60 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { randomUUID } from 'crypto';
+import { PreviewScreenshot } from './types';
+
+// Latest screenshot per sandbox - use globalThis to survive module reloads in development
+declare global {
+    var __latestScreenshots: Map<string, PreviewScreenshot> | undefined;
+}
+
+const latestScreenshots = globalThis.__latestScreenshots || (globalThis.__latestScreenshots = new Map<string, PreviewScreenshot>());
+
+// Screenshot ids are UUIDs, anything else is rejected before touching the disk
+const SCREENSHOT_ID_PATTERN = /^[0-9a-f-]{36}$/;
+
+function getScreenshotDir(): string {
+    return process.env.SCREENSHOT_DIR || join(tmpdir(), 'ui-builder-screenshots');
+}
+
+export function isScreenshotId(id: string): boolean {
+    return SCREENSHOT_ID_PATTERN.test(id);
+}
+
+/**
+ * Stores a PNG preview screenshot on the server's disk and returns where it can be fetched
+ */
+export async function saveScreenshot(png: Buffer): Promise<PreviewScreenshot> {
+    const id = randomUUID();
+    const dir = getScreenshotDir();
+    await fs.mkdir(dir, { recursive: true });
+    await fs.writeFile(join(dir, `${id}.png`), png);
+
+    return { id, url: `/api/screenshots/${id}`, capturedAt: Date.now() };
+}
+
+/**
+ * Reads a stored screenshot, or null if it does not exist
+ */
+export async function readScreenshot(id: string): Promise<Buffer | null> {
+    if (!isScreenshotId(id)) return null;
+
+    try {
+        return await fs.readFile(join(getScreenshotDir(), `${id}.png`));
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * The most recent screenshot taken of a sandbox's preview. Builds with errors are not captured,
+ * so this is the last version that rendered.
+ */
+export function getLatestScreenshot(sandboxId: string): PreviewScreenshot | undefined {
+    return latestScreenshots.get(sandboxId);
+}
+
+export function setLatestScreenshot(sandboxId: string, screenshot: PreviewScreenshot) {
+    latestScreenshots.set(sandboxId, screenshot);
+}
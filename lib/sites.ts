@@ -0,0 +1,103 @@
+import { promises as fs } from 'fs';
+import { extname, join, normalize, sep } from 'path';
+import { randomUUID } from 'crypto';
+import { PublishedSite } from './types';
+
+// Site ids are UUIDs, anything else is rejected before touching the disk
+const SITE_ID_PATTERN = /^[0-9a-f-]{36}$/;
+
+const CONTENT_TYPES: Record<string, string> = {
+    '.html': 'text/html; charset=utf-8',
+    '.js': 'text/javascript; charset=utf-8',
+    '.mjs': 'text/javascript; charset=utf-8',
+    '.css': 'text/css; charset=utf-8',
+    '.json': 'application/json',
+    '.svg': 'image/svg+xml',
+    '.png': 'image/png',
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.gif': 'image/gif',
+    '.webp': 'image/webp',
+    '.ico': 'image/x-icon',
+    '.woff': 'font/woff',
+    '.woff2': 'font/woff2',
+    '.txt': 'text/plain; charset=utf-8',
+    '.map': 'application/json'
+};
+
+export interface SiteFile {
+    data: Buffer;
+    contentType: string;
+    // Vite puts a content hash in the names of everything under assets/
+    immutable: boolean;
+}
+
+// Inside the project rather than a temp directory, so sites survive reboots and temp cleanup
+function getSitesDir(): string {
+    return process.env.SITES_DIR || join(process.cwd(), '.data', 'sites');
+}
+
+export function isSiteId(id: string): boolean {
+    return SITE_ID_PATTERN.test(id);
+}
+
+/**
+ * Picks the id for a new site up front, so the build can use its URL as the base path
+ */
+export function createSiteId(): string {
+    return randomUUID();
+}
+
+export function getSiteUrl(id: string): string {
+    return `/sites/${id}/`;
+}
+
+/**
+ * Stores a built site on the server's disk so it stays viewable after its sandbox is gone
+ */
+export async function publishSite(id: string, sandboxId: string, files: Array<{ path: string; data: Buffer }>): Promise<PublishedSite> {
+    if (!isSiteId(id)) {
+        throw new Error(`Invalid site id ${id}`);
+    }
+
+    const dir = join(getSitesDir(), id);
+    let written = 0;
+    for (const file of files) {
+        const target = join(dir, 'files', normalize(file.path));
+        if (!target.startsWith(join(dir, 'files') + sep)) continue;
+        await fs.mkdir(join(target, '..'), { recursive: true });
+        await fs.writeFile(target, file.data);
+        written++;
+    }
+
+    const site: PublishedSite = { id, url: getSiteUrl(id), sandboxId, publishedAt: Date.now() };
+    await fs.writeFile(join(dir, 'site.json'), JSON.stringify(site));
+    console.log(`🌐 Published ${written} file(s) from ${sandboxId} at ${site.url}`);
+    return site;
+}
+
+/**
+ * Reads a file of a published site. Paths without a file extension fall back to index.html so
+ * client-side routes resolve. Returns null if the site or file does not exist.
+ */
+export async function readSiteFile(id: string, segments: string[]): Promise<SiteFile | null> {
+    if (!isSiteId(id)) return null;
+
+    const root = join(getSitesDir(), id, 'files');
+    const requested = segments.length > 0 ? join(root, ...segments) : join(root, 'index.html');
+    if (requested !== root && !requested.startsWith(root + sep)) return null;
+
+    const candidates = extname(requested) ? [requested] : [join(requested, 'index.html'), join(root, 'index.html')];
+    for (const path of candidates) {
+        try {
+            return {
+                data: await fs.readFile(path),
+                contentType: CONTENT_TYPES[extname(path).toLowerCase()] ?? 'application/octet-stream',
+                immutable: path.startsWith(join(root, 'assets') + sep)
+            };
+        } catch {
+            // Try the next candidate
+        }
+    }
+    return null;
+}
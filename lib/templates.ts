@@ -0,0 +1,143 @@
+import { BoilerplateFilter } from './file-filter';
+import {
+    EDIT_SYSTEM_PROMPT,
+    REACT_APP_SYSTEM_PROMPT,
+    REACT_APP_USER_PROMPT,
+    REACT_TEST_SYSTEM_PROMPT,
+    SVELTE_APP_SYSTEM_PROMPT,
+    SVELTE_APP_USER_PROMPT,
+    SVELTE_EDIT_SYSTEM_PROMPT,
+    SVELTE_TEST_SYSTEM_PROMPT,
+    VUE_APP_SYSTEM_PROMPT,
+    VUE_APP_USER_PROMPT,
+    VUE_EDIT_SYSTEM_PROMPT,
+    VUE_TEST_SYSTEM_PROMPT
+} from './prompts';
+
+export type TemplateId = 'react' | 'vue' | 'svelte';
+
+/**
+ * Everything the pipeline needs to know about a kind of generated app: which sandbox
+ * image to boot, how to run it, what it already ships and how to prompt for it.
+ */
+export interface AppTemplate {
+    id: TemplateId;
+    label: string;
+    description: string;
+    // E2B template name (also the Docker image name for local sandboxes), built from templates/<name>
+    sandboxTemplate: string;
+    // Project directory inside the sandbox (the image's WORKDIR). Files are synced there and every stage runs in it.
+    workdir: string;
+    // Starts the dev server on the given port
+    devCommand: (port: number) => string;
+    port: number;
+    boilerplate: BoilerplateFilter;
+    // Type-check command printing tsc-style diagnostics, or undefined when the template has none
+    typecheckCommand?: string;
+    // Installed (if missing or outside the range) before running the project's tests with Vitest, by name and version range
+    testPackages: Record<string, string>;
+    systemPrompt: string;
+    userPrompt: (description: string) => string;
+    editSystemPrompt: string;
+    // Writes Vitest + Testing Library tests for the components in src/components
+    testSystemPrompt: string;
+}
+
+const viteDevCommand = (port: number) => `npm run dev -- --port ${port}`;
+
+// Test runner and DOM environment shared by every template; each adds its Testing Library flavor
+const vitestPackages: Record<string, string> = {
+    vitest: '^3.2.4',
+    jsdom: '^26.1.0',
+    '@testing-library/dom': '^10.4.0',
+    '@testing-library/jest-dom': '^6.6.3',
+    '@testing-library/user-event': '^14.6.1'
+};
+
+const TEMPLATES: Record<TemplateId, AppTemplate> = {
+    react: {
+        id: 'react',
+        label: 'React',
+        description: 'Vite + React 19 + TypeScript + Tailwind CSS',
+        sandboxTemplate: 'vite-support',
+        workdir: '/app',
+        devCommand: viteDevCommand,
+        port: 5173,
+        boilerplate: {
+            files: [],
+            paths: ['src/assets/react.svg'],
+            defaultAppFile: 'src/App.tsx'
+        },
+        typecheckCommand: 'npx --no-install tsc --noEmit --pretty false',
+        testPackages: { ...vitestPackages, '@testing-library/react': '^16.3.0' },
+        systemPrompt: REACT_APP_SYSTEM_PROMPT,
+        userPrompt: REACT_APP_USER_PROMPT,
+        editSystemPrompt: EDIT_SYSTEM_PROMPT,
+        testSystemPrompt: REACT_TEST_SYSTEM_PROMPT
+    },
+    vue: {
+        id: 'vue',
+        label: 'Vue',
+        description: 'Vite + Vue 3 + TypeScript + Tailwind CSS',
+        sandboxTemplate: 'vite-vue',
+        workdir: '/app',
+        devCommand: viteDevCommand,
+        port: 5173,
+        boilerplate: {
+            files: [],
+            paths: ['src/assets/vue.svg'],
+            defaultAppFile: 'src/App.vue'
+        },
+        typecheckCommand: 'npx --no-install vue-tsc --noEmit --pretty false',
+        testPackages: { ...vitestPackages, '@testing-library/vue': '^8.1.0' },
+        systemPrompt: VUE_APP_SYSTEM_PROMPT,
+        userPrompt: VUE_APP_USER_PROMPT,
+        editSystemPrompt: VUE_EDIT_SYSTEM_PROMPT,
+        testSystemPrompt: VUE_TEST_SYSTEM_PROMPT
+    },
+    svelte: {
+        id: 'svelte',
+        label: 'Svelte',
+        description: 'Vite + Svelte 5 + TypeScript + Tailwind CSS',
+        sandboxTemplate: 'vite-svelte',
+        workdir: '/app',
+        devCommand: viteDevCommand,
+        port: 5173,
+        boilerplate: {
+            files: ['svelte.config.js'],
+            paths: ['src/assets/svelte.svg'],
+            defaultAppFile: 'src/App.svelte'
+        },
+        // svelte-check does not print tsc-style diagnostics, so Svelte projects skip the stage
+        typecheckCommand: undefined,
+        testPackages: { ...vitestPackages, '@testing-library/svelte': '^5.2.8' },
+        systemPrompt: SVELTE_APP_SYSTEM_PROMPT,
+        userPrompt: SVELTE_APP_USER_PROMPT,
+        editSystemPrompt: SVELTE_EDIT_SYSTEM_PROMPT,
+        testSystemPrompt: SVELTE_TEST_SYSTEM_PROMPT
+    }
+};
+
+export const DEFAULT_TEMPLATE_ID: TemplateId = 'react';
+
+// What the template selector shows
+export const TEMPLATE_OPTIONS = Object.values(TEMPLATES).map(({ id, label, description }) => ({ id, label, description }));
+
+export function isTemplateId(value: unknown): value is TemplateId {
+    return typeof value === 'string' && value in TEMPLATES;
+}
+
+/**
+ * Looks up a template, falling back to the default for missing or unknown ids
+ */
+export function getTemplate(id?: string | null): AppTemplate {
+    return isTemplateId(id) ? TEMPLATES[id] : TEMPLATES[DEFAULT_TEMPLATE_ID];
+}
+
+/**
+ * The template picked on the prompt form, read from sessionStorage like the other generation settings (browser only)
+ */
+export function getSelectedTemplateId(): TemplateId | undefined {
+    const stored = sessionStorage.getItem('templateId');
+    return isTemplateId(stored) ? stored : undefined;
+}
@@ -19,4 +19,114 @@ export interface ProcessResult {
 export interface DeployResult {
     previewUrl: string;
     process: Process;
-} 
\ No newline at end of file
+} 
+export interface BuildError {
+    type: 'typescript' | 'build' | 'runtime' | 'lint' | 'dependency' | 'accessibility';
+    message: string;
+    file?: string;
+    line?: number;
+    column?: number;
+    // Diagnostic code, e.g. TS2322 (or the axe rule id for accessibility violations)
+    code?: string;
+    // Warnings are reported but do not mark the build as failed
+    severity?: 'error' | 'warning';
+    // axe impact and CSS selector of the failing element (accessibility violations only)
+    impact?: 'minor' | 'moderate' | 'serious' | 'critical';
+    selector?: string;
+}
+
+export interface PreviewScreenshot {
+    id: string;
+    // Served by app/api/screenshots/[id]
+    url: string;
+    capturedAt: number;
+}
+
+export interface ChangedRegion {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface VisualDiff {
+    before: PreviewScreenshot;
+    after: PreviewScreenshot;
+    // Changed pixels drawn in red over a faded copy of the new version
+    diffUrl: string;
+    width: number;
+    height: number;
+    // Share of pixels that changed, from 0 to 1
+    changedRatio: number;
+    regions: ChangedRegion[];
+    // The instruction only asked for a targeted fix but a large part of the page changed
+    unexpected: boolean;
+}
+
+export interface PublishedSite {
+    id: string;
+    // Served by app/sites/[id]/[[...path]]
+    url: string;
+    sandboxId: string;
+    publishedAt: number;
+}
+
+export interface BundleChunk {
+    // Path relative to dist/
+    file: string;
+    kind: 'js' | 'css' | 'html' | 'asset';
+    size: number;
+    gzipSize: number;
+}
+
+export interface BundleModule {
+    // Path relative to the project, e.g. node_modules/react-dom/cjs/react-dom.production.js
+    id: string;
+    // Bytes the module contributes to the output after tree-shaking and minification
+    size: number;
+}
+
+export interface BundleReport {
+    success: boolean;
+    chunks: BundleChunk[];
+    totalSize: number;
+    totalGzipSize: number;
+    largestModules: BundleModule[];
+    errors: BuildError[];
+    durationMs: number;
+    builtAt: number;
+}
+
+// Whether a failing test points at a bug in the component or in the test itself
+export type TestFailureCause = 'component' | 'test';
+
+export interface TestCaseResult {
+    // Path relative to the project, e.g. src/components/Button.test.tsx
+    file: string;
+    // Describe blocks and test title, e.g. "Button > calls onClick when clicked"
+    name: string;
+    status: 'passed' | 'failed' | 'skipped';
+    durationMs?: number;
+    failureMessages: string[];
+    // Set for failures of generated tests once they have been classified
+    cause?: TestFailureCause;
+    explanation?: string;
+}
+
+export interface TestFileError {
+    file: string;
+    message: string;
+    cause?: TestFailureCause;
+    explanation?: string;
+}
+
+export interface TestRunResult {
+    // False when a test or a whole test file failed
+    success: boolean;
+    files: string[];
+    tests: TestCaseResult[];
+    // Test files that failed before running any test (syntax errors, failed imports)
+    fileErrors: TestFileError[];
+    durationMs: number;
+    ranAt: number;
+}
@@ -0,0 +1,164 @@
+import pixelmatch from 'pixelmatch';
+import { PNG } from 'pngjs';
+import { readScreenshot, saveScreenshot } from './screenshots';
+import { ChangedRegion, PreviewScreenshot, VisualDiff } from './types';
+
+// Changed pixels are grouped on a grid of this size before being merged into regions
+const REGION_CELL_SIZE = 16;
+const MAX_REGIONS = 20;
+// Per-pixel color distance below which pixels count as unchanged (pixelmatch's scale, 0 to 1)
+const PIXEL_THRESHOLD = 0.1;
+
+// Instructions that ask for a targeted repair rather than a visual change
+const NARROW_INSTRUCTION_PATTERNS = [
+    /^Fix the following (build errors|warnings)/,
+    /^Fix these errors from the preview console/,
+    /^Fix the following failing tests/,
+    /^Fix the following accessibility issues/
+];
+
+/**
+ * Share of changed pixels above which a narrow fix is flagged (VISUAL_DIFF_LARGE_CHANGE, default 0.2)
+ */
+function getLargeChangeThreshold(): number {
+    const threshold = parseFloat(process.env.VISUAL_DIFF_LARGE_CHANGE || '');
+    return Number.isFinite(threshold) && threshold > 0 ? threshold : 0.2;
+}
+
+/**
+ * Whether an edit instruction only asks to fix errors, so the page should look the same afterwards
+ */
+export function isNarrowEditInstruction(instruction: string | undefined): boolean {
+    return !!instruction && NARROW_INSTRUCTION_PATTERNS.some(pattern => pattern.test(instruction.trim()));
+}
+
+/**
+ * Groups changed pixels into bounding boxes of connected grid cells, largest first
+ */
+function findChangedRegions(mask: Uint8Array, width: number, height: number): ChangedRegion[] {
+    const columns = Math.ceil(width / REGION_CELL_SIZE);
+    const rows = Math.ceil(height / REGION_CELL_SIZE);
+    const changedCells = new Uint8Array(columns * rows);
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            // The mask is transparent everywhere except changed pixels
+            if (mask[(y * width + x) * 4 + 3] > 0) {
+                changedCells[Math.floor(y / REGION_CELL_SIZE) * columns + Math.floor(x / REGION_CELL_SIZE)] = 1;
+            }
+        }
+    }
+
+    const regions: ChangedRegion[] = [];
+    const visited = new Uint8Array(columns * rows);
+    for (let start = 0; start < changedCells.length; start++) {
+        if (!changedCells[start] || visited[start]) continue;
+
+        let minColumn = columns, minRow = rows, maxColumn = 0, maxRow = 0;
+        const stack = [start];
+        visited[start] = 1;
+        while (stack.length > 0) {
+            const cell = stack.pop()!;
+            const column = cell % columns;
+            const row = Math.floor(cell / columns);
+            minColumn = Math.min(minColumn, column);
+            maxColumn = Math.max(maxColumn, column);
+            minRow = Math.min(minRow, row);
+            maxRow = Math.max(maxRow, row);
+
+            const neighbours = [
+                column > 0 ? cell - 1 : -1,
+                column < columns - 1 ? cell + 1 : -1,
+                row > 0 ? cell - columns : -1,
+                row < rows - 1 ? cell + columns : -1
+            ];
+            for (const neighbour of neighbours) {
+                if (neighbour >= 0 && changedCells[neighbour] && !visited[neighbour]) {
+                    visited[neighbour] = 1;
+                    stack.push(neighbour);
+                }
+            }
+        }
+
+        const x = minColumn * REGION_CELL_SIZE;
+        const y = minRow * REGION_CELL_SIZE;
+        regions.push({
+            x,
+            y,
+            width: Math.min((maxColumn + 1) * REGION_CELL_SIZE, width) - x,
+            height: Math.min((maxRow + 1) * REGION_CELL_SIZE, height) - y
+        });
+    }
+
+    return regions
+        .sort((a, b) => b.width * b.height - a.width * a.height)
+        .slice(0, MAX_REGIONS);
+}
+
+/**
+ * Compares two preview screenshots pixel by pixel and stores an image highlighting what changed.
+ * Pass `narrow` when the edit was only meant to fix errors, so large visual changes get flagged.
+ */
+export async function compareScreenshots(
+    before: PreviewScreenshot,
+    after: PreviewScreenshot,
+    { narrow = false }: { narrow?: boolean } = {}
+): Promise<VisualDiff> {
+    const [beforePng, afterPng] = await Promise.all([readScreenshot(before.id), readScreenshot(after.id)]);
+    if (!beforePng || !afterPng) {
+        throw new Error('Screenshot to compare no longer exists');
+    }
+
+    const beforeImage = PNG.sync.read(beforePng);
+    const afterImage = PNG.sync.read(afterPng);
+    const { width, height } = afterImage;
+    if (beforeImage.width !== width || beforeImage.height !== height) {
+        throw new Error(`Screenshot sizes differ (${beforeImage.width}x${beforeImage.height} vs ${width}x${height})`);
+    }
+
+    const diffImage = new PNG({ width, height });
+    const changedPixels = pixelmatch(beforeImage.data, afterImage.data, diffImage.data, width, height, {
+        threshold: PIXEL_THRESHOLD
+    });
+
+    const mask = new Uint8Array(width * height * 4);
+    pixelmatch(beforeImage.data, afterImage.data, mask, width, height, {
+        threshold: PIXEL_THRESHOLD,
+        diffMask: true
+    });
+
+    const diffScreenshot = await saveScreenshot(PNG.sync.write(diffImage));
+    const changedRatio = changedPixels / (width * height);
+
+    return {
+        before,
+        after,
+        diffUrl: diffScreenshot.url,
+        width,
+        height,
+        changedRatio,
+        regions: changedPixels > 0 ? findChangedRegions(mask, width, height) : [],
+        unexpected: narrow && changedRatio >= getLargeChangeThreshold()
+    };
+}
+
+/**
+ * Diffs a new preview version against the previous one, if both were captured. Failures are
+ * logged and skipped since the diff is only informational.
+ */
+export async function diffPreviewVersions(
+    previous: PreviewScreenshot | undefined,
+    current: PreviewScreenshot | undefined,
+    options: { narrow?: boolean } = {}
+): Promise<VisualDiff | undefined> {
+    if (!previous || !current) return undefined;
+
+    try {
+        const diff = await compareScreenshots(previous, current, options);
+        console.log(`🖼️ Visual diff: ${(diff.changedRatio * 100).toFixed(1)}% of the page changed in ${diff.regions.length} region(s)`);
+        return diff;
+    } catch (error) {
+        console.error('Visual diff failed:', error);
+        return undefined;
+    }
+}
@@ -0,0 +1,111 @@
+#!/usr/bin/env node
+/**
+ * Pre-seeds an npm cache (and/or a registry mirror such as Verdaccio) with the popular UI packages
+ * listed in templates/<template>/seed-packages.json, so sandbox installs work offline.
+ * Run it on a machine with network access:
+ *
+ *   npm run seed-npm-cache -- --cache ./.npm-cache
+ *   npm run seed-npm-cache -- --template vue --registry http://localhost:4873
+ *
+ * Installing through the mirror is what makes Verdaccio store the tarballs. Dependencies of the
+ * seeded packages are cached too, since each list is installed into a scratch project.
+ */
+import { spawnSync } from 'node:child_process';
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { dirname, join, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+// Template id -> directory under templates/ (matches lib/templates.ts)
+const TEMPLATE_DIRS = {
+    react: 'vite-support',
+    vue: 'vite-vue',
+    svelte: 'vite-svelte'
+};
+
+const root = resolve(dirname(fileURLToPath(import.meta.url)), '..');
+
+function parseArgs(argv) {
+    const options = { templates: [], cache: undefined, registry: undefined };
+    for (let i = 0; i < argv.length; i++) {
+        const value = argv[i + 1];
+        switch (argv[i]) {
+            case '--template':
+                options.templates.push(value);
+                i++;
+                break;
+            case '--cache':
+                options.cache = resolve(value);
+                i++;
+                break;
+            case '--registry':
+                options.registry = value;
+                i++;
+                break;
+            default:
+                throw new Error(`Unknown option ${argv[i]}`);
+        }
+    }
+    if (options.templates.length === 0) {
+        options.templates = Object.keys(TEMPLATE_DIRS);
+    }
+    if (!options.cache && !options.registry) {
+        throw new Error('Pass --cache <dir>, --registry <url> or both');
+    }
+    return options;
+}
+
+function readSeedPackages(templateId) {
+    const dir = TEMPLATE_DIRS[templateId];
+    if (!dir) {
+        throw new Error(`Unknown template "${templateId}". Expected one of: ${Object.keys(TEMPLATE_DIRS).join(', ')}`);
+    }
+
+    const listPath = join(root, 'templates', dir, 'seed-packages.json');
+    if (!existsSync(listPath)) return [];
+    return JSON.parse(readFileSync(listPath, 'utf8'));
+}
+
+function seedTemplate(templateId, options) {
+    const packages = readSeedPackages(templateId);
+    if (packages.length === 0) {
+        console.log(`No seed packages for ${templateId}, skipping`);
+        return true;
+    }
+
+    // Scratch project so npm resolves and caches the whole dependency tree
+    const project = mkdtempSync(join(tmpdir(), `seed-${templateId}-`));
+    try {
+        const dependencies = Object.fromEntries(packages.map(spec => {
+            const separator = spec.lastIndexOf('@');
+            return separator > 0 ? [spec.slice(0, separator), spec.slice(separator + 1)] : [spec, 'latest'];
+        }));
+        writeFileSync(join(project, 'package.json'), JSON.stringify({ name: `seed-${templateId}`, private: true, dependencies }, null, 2));
+
+        const args = ['install', '--ignore-scripts', '--no-audit', '--no-fund'];
+        if (options.cache) args.push(`--cache=${options.cache}`);
+        if (options.registry) args.push(`--registry=${options.registry}`);
+
+        console.log(`📦 Seeding ${packages.length} packages for ${templateId}...`);
+        const result = spawnSync('npm', args, { cwd: project, stdio: 'inherit' });
+        if (result.status !== 0) {
+            console.error(`Seeding ${templateId} failed with exit code ${result.status}`);
+            return false;
+        }
+        return true;
+    } finally {
+        rmSync(project, { recursive: true, force: true });
+    }
+}
+
+try {
+    const options = parseArgs(process.argv.slice(2));
+    const failed = options.templates.filter(templateId => !seedTemplate(templateId, options));
+    if (failed.length > 0) {
+        process.exit(1);
+    }
+    console.log(`✅ Seeded ${options.templates.join(', ')}${options.cache ? ` into ${options.cache}` : ''}`);
+} catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+}